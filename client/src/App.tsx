@@ -3,13 +3,58 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/home";
+import AuthPage from "@/pages/auth-page";
+import UsersPage from "@/pages/users";
+import SmtpProfilesPage from "@/pages/smtp-profiles";
+import SenderIdentitiesPage from "@/pages/sender-identities";
+import CampaignReviewPage from "@/pages/campaign-review";
+import DryRunPage from "@/pages/dry-run";
+import DevMailboxPage from "@/pages/dev-mailbox";
+import SuppressionsPage from "@/pages/suppressions";
+import UnsubscribePage from "@/pages/unsubscribe";
+import PreferencesPage from "@/pages/preferences";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute
+        path="/campaigns/:id/review"
+        component={CampaignReviewPage}
+      />
+      <ProtectedRoute path="/campaigns/:id/dry-run" component={DryRunPage} />
+      {/* The SMTP sink behind it only runs with the development server */}
+      {import.meta.env.DEV && (
+        <ProtectedRoute path="/dev/mailbox" component={DevMailboxPage} />
+      )}
+      <ProtectedRoute
+        path="/suppressions"
+        component={SuppressionsPage}
+        roles={["approver", "admin"]}
+      />
+      <ProtectedRoute
+        path="/admin/smtp-profiles"
+        component={SmtpProfilesPage}
+        roles={["admin"]}
+      />
+      <ProtectedRoute
+        path="/admin/sender-identities"
+        component={SenderIdentitiesPage}
+        roles={["admin"]}
+      />
+      <ProtectedRoute
+        path="/admin/users"
+        component={UsersPage}
+        roles={["admin"]}
+      />
+      <Route path="/auth" component={AuthPage} />
+      {/* Public: recipients follow these from their inbox */}
+      <Route path="/u/:token" component={UnsubscribePage} />
+      <Route path="/preferences/:token" component={PreferencesPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +63,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
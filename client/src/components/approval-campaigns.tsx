@@ -0,0 +1,179 @@
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ClipboardCheck, Pencil, Send, X } from "lucide-react";
+import { SCHEDULED_CAMPAIGNS_KEY } from "@/components/scheduled-campaigns";
+import type { Campaign, CampaignStatus } from "@shared/schema";
+
+export const APPROVAL_CAMPAIGNS_KEY =
+  "/api/campaigns?status=draft,pending_approval,approved";
+
+const STATUS_LABELS: Partial<Record<CampaignStatus, string>> = {
+  draft: "Rejected",
+  pending_approval: "Awaiting approval",
+  approved: "Approved",
+};
+
+interface ApprovalCampaignsProps {
+  // Loads the campaign into the composer to submit a revised version
+  onRevise: (campaign: Campaign) => void;
+  // Called with the campaign id once an approved campaign is queued to send now
+  onDispatched: (campaignId: string) => void;
+  disabled?: boolean;
+}
+
+export function ApprovalCampaigns({
+  onRevise,
+  onDispatched,
+  disabled,
+}: ApprovalCampaignsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: [APPROVAL_CAMPAIGNS_KEY],
+    refetchInterval: 30 * 1000,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const dispatchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/campaigns/${id}/dispatch`);
+      return (await res.json()) as { campaignId: string; status: CampaignStatus };
+    },
+    onSuccess: ({ campaignId, status }) => {
+      queryClient.invalidateQueries({ queryKey: [APPROVAL_CAMPAIGNS_KEY] });
+      if (status === "scheduled") {
+        queryClient.invalidateQueries({ queryKey: [SCHEDULED_CAMPAIGNS_KEY] });
+        toast({
+          title: "Campaign Scheduled",
+          description: "It will be sent at its scheduled time.",
+        });
+      } else {
+        onDispatched(campaignId);
+      }
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/campaigns/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [APPROVAL_CAMPAIGNS_KEY] });
+    },
+    onError,
+  });
+
+  if (campaigns.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Approvals</CardTitle>
+        <CardDescription>
+          Large campaigns need sign-off from a second person before sending
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {campaigns.map((campaign) => {
+            const isAuthor = campaign.createdBy === user?.id;
+            return (
+              <div
+                key={campaign.id}
+                className="flex items-center justify-between gap-2 p-2 rounded-md border text-sm"
+                data-testid={`approval-campaign-${campaign.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="truncate font-medium">{campaign.subject}</div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge
+                      variant={
+                        campaign.status === "draft" ? "destructive" : "secondary"
+                      }
+                    >
+                      {STATUS_LABELS[campaign.status]}
+                    </Badge>
+                    {campaign.recipientCount} recipients
+                  </div>
+                </div>
+                <div className="flex flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    asChild
+                    aria-label="Review"
+                  >
+                    <Link
+                      href={`/campaigns/${campaign.id}/review`}
+                      data-testid={`link-review-${campaign.id}`}
+                    >
+                      <ClipboardCheck className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  {isAuthor && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onRevise(campaign)}
+                      disabled={disabled}
+                      aria-label="Revise"
+                      data-testid={`button-revise-${campaign.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {campaign.status === "approved" && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => dispatchMutation.mutate(campaign.id)}
+                      disabled={disabled || dispatchMutation.isPending}
+                      aria-label="Send"
+                      data-testid={`button-dispatch-${campaign.id}`}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => cancelMutation.mutate(campaign.id)}
+                    disabled={cancelMutation.isPending}
+                    aria-label="Cancel"
+                    data-testid={`button-cancel-approval-${campaign.id}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+interface EmailPreviewFrameProps {
+  title: string;
+  html: string;
+  className?: string;
+  "data-testid"?: string;
+}
+
+/**
+ * Email HTML in a sandboxed frame without scripts. Bodies come from other
+ * operators, shared templates and captured messages, so they must never be
+ * inserted into the app's own DOM where they would run with the viewer's
+ * session.
+ */
+export function EmailPreviewFrame({
+  title,
+  html,
+  className,
+  "data-testid": testId,
+}: EmailPreviewFrameProps) {
+  return (
+    <iframe
+      title={title}
+      sandbox=""
+      srcDoc={html}
+      className={cn("w-full h-[60vh] rounded-md border bg-white", className)}
+      data-testid={testId}
+    />
+  );
+}
+
+/**
+ * The sandboxed frame has no origin, so it cannot load images behind the
+ * session (the sender logo); this fetches one as a data: URL it can show.
+ */
+export function useFrameImage(url: string | null | undefined): string | undefined {
+  const { data } = useQuery({
+    queryKey: ["frame-image", url],
+    queryFn: async () => {
+      const blob = await (await apiRequest("GET", url!)).blob();
+      return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+    },
+    enabled: Boolean(url),
+  });
+  return url ? data : undefined;
+}
@@ -0,0 +1,374 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, FileSpreadsheet, Upload } from "lucide-react";
+import {
+  buildRecipients,
+  detectHeader,
+  guessMapping,
+  parseDelimited,
+  readRecipientFile,
+  toRecipientTable,
+  type ColumnMapping,
+} from "@/lib/recipients";
+import type { EmailRecipient } from "@shared/schema";
+
+const PREVIEW_ROWS = 8;
+const NO_NAME_COLUMN = "none";
+
+interface RecipientImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Text to start from, e.g. a multi-column paste into the recipients box
+  initialText?: string;
+  onImport: (recipients: EmailRecipient[]) => void;
+}
+
+export function RecipientImportDialog({
+  open,
+  onOpenChange,
+  initialText,
+  onImport,
+}: RecipientImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const loadRows = (newRows: string[][]) => {
+    const header = detectHeader(newRows);
+    setRows(newRows);
+    setHasHeader(header);
+    setMapping(
+      newRows.length > 0 ? guessMapping(toRecipientTable(newRows, header)) : null,
+    );
+  };
+
+  useEffect(() => {
+    if (open) {
+      setText(initialText ?? "");
+      loadRows(initialText ? parseDelimited(initialText) : []);
+    }
+  }, [open, initialText]);
+
+  const table = useMemo(() => toRecipientTable(rows, hasHeader), [rows, hasHeader]);
+
+  const result = useMemo(
+    () =>
+      mapping
+        ? buildRecipients(table, mapping, hasHeader ? 2 : 1)
+        : { recipients: [], invalidRows: [] },
+    [table, mapping, hasHeader],
+  );
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    loadRows(parseDelimited(value));
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setText("");
+      loadRows(await readRecipientFile(file));
+    } catch (error) {
+      toast({
+        title: "Could not read file",
+        description:
+          error instanceof Error ? error.message : "Unsupported file format",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleHeaderChange = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(guessMapping(toRecipientTable(rows, checked)));
+  };
+
+  const toggleFieldColumn = (column: number, checked: boolean) => {
+    if (!mapping) return;
+    setMapping({
+      ...mapping,
+      fieldColumns: checked
+        ? [...mapping.fieldColumns, column].sort((a, b) => a - b)
+        : mapping.fieldColumns.filter((c) => c !== column),
+    });
+  };
+
+  const setEmailColumn = (column: number) => {
+    if (!mapping) return;
+    setMapping({
+      emailColumn: column,
+      nameColumn: mapping.nameColumn === column ? null : mapping.nameColumn,
+      fieldColumns: mapping.fieldColumns.filter((c) => c !== column),
+    });
+  };
+
+  const setNameColumn = (column: number | null) => {
+    if (!mapping) return;
+    setMapping({
+      ...mapping,
+      nameColumn: column,
+      fieldColumns: mapping.fieldColumns.filter((c) => c !== column),
+    });
+  };
+
+  const handleImport = () => {
+    onImport(result.recipients);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Recipients</DialogTitle>
+          <DialogDescription>
+            Paste rows from Excel or upload a .csv or .xlsx file, then choose
+            which columns to use
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Textarea
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder="Paste rows here, including the header row"
+              rows={4}
+              className="font-mono text-sm flex-1 min-w-64"
+              data-testid="input-import-text"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              data-testid="button-import-file"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx"
+              className="hidden"
+              onChange={handleFileSelect}
+              data-testid="input-import-file"
+            />
+          </div>
+
+          {rows.length > 0 && mapping && (
+            <>
+              <div className="flex flex-wrap items-end gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="import-has-header"
+                    checked={hasHeader}
+                    onCheckedChange={handleHeaderChange}
+                    data-testid="switch-import-header"
+                  />
+                  <Label htmlFor="import-has-header">
+                    First row is a header
+                  </Label>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Email column</Label>
+                  <Select
+                    value={String(mapping.emailColumn)}
+                    onValueChange={(value) => setEmailColumn(Number(value))}
+                  >
+                    <SelectTrigger
+                      className="w-48"
+                      data-testid="select-import-email-column"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Name column</Label>
+                  <Select
+                    value={
+                      mapping.nameColumn === null
+                        ? NO_NAME_COLUMN
+                        : String(mapping.nameColumn)
+                    }
+                    onValueChange={(value) =>
+                      setNameColumn(
+                        value === NO_NAME_COLUMN ? null : Number(value),
+                      )
+                    }
+                  >
+                    <SelectTrigger
+                      className="w-48"
+                      data-testid="select-import-name-column"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_NAME_COLUMN}>None</SelectItem>
+                      {table.headers.map((header, index) =>
+                        index === mapping.emailColumn ? null : (
+                          <SelectItem key={index} value={String(index)}>
+                            {header}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {table.headers.map((header, index) => {
+                        const role =
+                          index === mapping.emailColumn
+                            ? "Email"
+                            : index === mapping.nameColumn
+                              ? "Name"
+                              : null;
+                        return (
+                          <TableHead key={index} className="whitespace-nowrap">
+                            <div className="flex items-center gap-2 py-1">
+                              {role ? (
+                                <Badge variant="secondary">{role}</Badge>
+                              ) : (
+                                <Checkbox
+                                  checked={mapping.fieldColumns.includes(index)}
+                                  onCheckedChange={(checked) =>
+                                    toggleFieldColumn(index, checked === true)
+                                  }
+                                  aria-label={`Use ${header} as merge field`}
+                                  data-testid={`checkbox-import-field-${index}`}
+                                />
+                              )}
+                              <span>{header}</span>
+                            </div>
+                          </TableHead>
+                        );
+                      })}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {row.map((cell, index) => (
+                          <TableCell
+                            key={index}
+                            className="whitespace-nowrap text-sm"
+                          >
+                            {cell}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {table.rows.length > PREVIEW_ROWS &&
+                  `Showing ${PREVIEW_ROWS} of ${table.rows.length} rows. `}
+                Ticked columns become placeholders in the subject and body.
+              </p>
+
+              {result.invalidRows.length > 0 && (
+                <div
+                  className="space-y-2 rounded-md border border-destructive/50 p-3"
+                  data-testid="import-invalid-rows"
+                >
+                  <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {result.invalidRows.length} row(s) will be skipped
+                  </div>
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {result.invalidRows.map((invalid) => (
+                      <div
+                        key={invalid.rowNumber}
+                        className="flex gap-2 text-xs"
+                      >
+                        <span className="text-muted-foreground flex-shrink-0">
+                          Row {invalid.rowNumber}:
+                        </span>
+                        <span className="truncate">
+                          {invalid.values.filter(Boolean).join(", ")}
+                        </span>
+                        <span className="text-destructive flex-shrink-0">
+                          {invalid.reason}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={result.recipients.length === 0}
+            data-testid="button-import-confirm"
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Import {result.recipients.length} Recipients
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TIME_ZONES } from "@/lib/timezone";
+
+interface SchedulePickerProps {
+  // Wall-clock time in timeZone, formatted for datetime-local ("2025-11-17T09:00")
+  localDateTime: string;
+  timeZone: string;
+  onChange: (value: { localDateTime: string; timeZone: string }) => void;
+  disabled?: boolean;
+}
+
+export function SchedulePicker({
+  localDateTime,
+  timeZone,
+  onChange,
+  disabled,
+}: SchedulePickerProps) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-1">
+        <Label htmlFor="schedule-time" className="text-xs">
+          Send at
+        </Label>
+        <Input
+          id="schedule-time"
+          type="datetime-local"
+          value={localDateTime}
+          onChange={(e) => onChange({ localDateTime: e.target.value, timeZone })}
+          disabled={disabled}
+          data-testid="input-schedule-time"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Time zone</Label>
+        <Select
+          value={timeZone}
+          onValueChange={(zone) => onChange({ localDateTime, timeZone: zone })}
+          disabled={disabled}
+        >
+          <SelectTrigger data-testid="select-schedule-timezone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_ZONES.map((zone) => (
+              <SelectItem key={zone.value} value={zone.value}>
+                {zone.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
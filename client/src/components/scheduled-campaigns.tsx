@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarClock, Loader2, X } from "lucide-react";
+import { SchedulePicker } from "@/components/schedule-picker";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  toZonedInputValue,
+  zonedTimeToUtc,
+} from "@/lib/timezone";
+import type { Campaign } from "@shared/schema";
+
+export const SCHEDULED_CAMPAIGNS_KEY = "/api/campaigns?status=scheduled";
+
+export function ScheduledCampaigns() {
+  const { toast } = useToast();
+  const [rescheduling, setRescheduling] = useState<Campaign | null>(null);
+  const [schedule, setSchedule] = useState({
+    localDateTime: "",
+    timeZone: DEFAULT_TIME_ZONE,
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: [SCHEDULED_CAMPAIGNS_KEY],
+    refetchInterval: 30 * 1000,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: [SCHEDULED_CAMPAIGNS_KEY] });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/campaigns/${id}/cancel`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({
+      id,
+      scheduledAt,
+      timeZone,
+    }: {
+      id: string;
+      scheduledAt: Date;
+      timeZone: string;
+    }) => {
+      await apiRequest("PATCH", `/api/campaigns/${id}/schedule`, {
+        scheduledAt: scheduledAt.toISOString(),
+        timeZone,
+      });
+    },
+    onSuccess: () => {
+      onSuccess();
+      setRescheduling(null);
+    },
+    onError,
+  });
+
+  const openReschedule = (campaign: Campaign) => {
+    const timeZone = campaign.timeZone ?? DEFAULT_TIME_ZONE;
+    setSchedule({
+      localDateTime: campaign.scheduledAt
+        ? toZonedInputValue(new Date(campaign.scheduledAt), timeZone)
+        : "",
+      timeZone,
+    });
+    setRescheduling(campaign);
+  };
+
+  if (campaigns.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Scheduled Campaigns</CardTitle>
+        <CardDescription>
+          Sent automatically at the chosen time
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {campaigns.map((campaign) => (
+            <div
+              key={campaign.id}
+              className="flex items-center justify-between gap-2 p-2 rounded-md border text-sm"
+              data-testid={`scheduled-campaign-${campaign.id}`}
+            >
+              <div className="min-w-0">
+                <div className="truncate font-medium">{campaign.subject}</div>
+                <div className="text-xs text-muted-foreground">
+                  {campaign.scheduledAt &&
+                    formatInTimeZone(
+                      new Date(campaign.scheduledAt),
+                      campaign.timeZone ?? DEFAULT_TIME_ZONE,
+                    )}{" "}
+                  · {campaign.recipientCount} recipients
+                </div>
+              </div>
+              <div className="flex flex-shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => openReschedule(campaign)}
+                  aria-label="Reschedule"
+                  data-testid={`button-reschedule-${campaign.id}`}
+                >
+                  <CalendarClock className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => cancelMutation.mutate(campaign.id)}
+                  disabled={cancelMutation.isPending}
+                  aria-label="Cancel"
+                  data-testid={`button-cancel-${campaign.id}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog
+        open={rescheduling !== null}
+        onOpenChange={(open) => !open && setRescheduling(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reschedule Campaign</DialogTitle>
+            <DialogDescription>{rescheduling?.subject}</DialogDescription>
+          </DialogHeader>
+          <SchedulePicker
+            localDateTime={schedule.localDateTime}
+            timeZone={schedule.timeZone}
+            onChange={setSchedule}
+          />
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() =>
+                rescheduling &&
+                rescheduleMutation.mutate({
+                  id: rescheduling.id,
+                  scheduledAt: zonedTimeToUtc(
+                    schedule.localDateTime,
+                    schedule.timeZone,
+                  ),
+                  timeZone: schedule.timeZone,
+                })
+              }
+              disabled={!schedule.localDateTime || rescheduleMutation.isPending}
+              data-testid="button-confirm-reschedule"
+            >
+              {rescheduleMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Reschedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
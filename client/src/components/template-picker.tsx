@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import type { InsertTemplate, Template } from "@shared/schema";
+
+interface TemplatePickerProps {
+  // Current subject and body, saved when the user stores a template
+  getContent: () => { subject: string; htmlBody: string };
+  onLoad: (template: Template) => void;
+  disabled?: boolean;
+}
+
+export function TemplatePicker({
+  getContent,
+  onLoad,
+  disabled,
+}: TemplatePickerProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+  });
+  const selected = templates.find((t) => t.id === selectedId);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({
+      id,
+      template,
+    }: {
+      id?: string;
+      template: InsertTemplate;
+    }) => {
+      const res = id
+        ? await apiRequest("PATCH", `/api/templates/${id}`, template)
+        : await apiRequest("POST", "/api/templates", template);
+      return (await res.json()) as Template;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setSelectedId(template.id);
+      setIsSaveOpen(false);
+      toast({
+        title: "Template Saved",
+        description: `"${template.name}" is available in the template list.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setSelectedId("");
+    },
+    onError,
+  });
+
+  const handleSelect = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setSelectedId(id);
+    onLoad(template);
+  };
+
+  const openSave = () => {
+    const { subject, htmlBody } = getContent();
+    if (!subject || !htmlBody) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide both subject and email body.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setName(selected?.name ?? "");
+    setIsSaveOpen(true);
+  };
+
+  const save = (overwrite: boolean) => {
+    saveMutation.mutate({
+      id: overwrite ? selected?.id : undefined,
+      template: { name: name.trim(), ...getContent() },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={selectedId}
+        onValueChange={handleSelect}
+        disabled={disabled || templates.length === 0}
+      >
+        <SelectTrigger className="w-56" data-testid="select-template">
+          <SelectValue
+            placeholder={
+              templates.length === 0 ? "No saved templates" : "Load template"
+            }
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => deleteMutation.mutate(selected.id)}
+          disabled={disabled || deleteMutation.isPending}
+          aria-label="Delete template"
+          data-testid="button-delete-template"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={openSave}
+        disabled={disabled}
+        data-testid="button-save-template"
+      >
+        <Save className="h-4 w-4 mr-2" />
+        Save as Template
+      </Button>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Template</DialogTitle>
+            <DialogDescription>
+              Stores the current subject and body for reuse
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Possession demand letter"
+              data-testid="input-template-name"
+            />
+          </div>
+          <DialogFooter>
+            {selected && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => save(true)}
+                disabled={!name.trim() || saveMutation.isPending}
+                data-testid="button-update-template"
+              >
+                Update "{selected.name}"
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={() => save(false)}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-confirm-save-template"
+            >
+              {saveMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Save as New
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
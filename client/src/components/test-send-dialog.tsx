@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Send } from "lucide-react";
+import type { EmailRecipient } from "@shared/schema";
+
+// Enough to pick a representative row without rendering the whole list
+const SAMPLE_OPTIONS = 50;
+
+interface TestSendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipients: EmailRecipient[];
+  // The configured seed list; test sends cannot go anywhere else
+  seedAddresses: string[];
+  isSending: boolean;
+  onSend: (sampleIndex: number, seedAddresses: string[]) => void;
+}
+
+export function TestSendDialog({
+  open,
+  onOpenChange,
+  recipients,
+  seedAddresses,
+  isSending,
+  onSend,
+}: TestSendDialogProps) {
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [selectedSeeds, setSelectedSeeds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setSampleIndex(0);
+      setSelectedSeeds(seedAddresses);
+    }
+  }, [open, seedAddresses]);
+
+  const toggleSeed = (address: string, checked: boolean) => {
+    setSelectedSeeds((current) =>
+      checked
+        ? seedAddresses.filter((seed) => seed === address || current.includes(seed))
+        : current.filter((seed) => seed !== address),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send Test</DialogTitle>
+          <DialogDescription>
+            Sends one recipient's message to the seed addresses with a [TEST]
+            subject. CC and BCC are left off.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Render as</Label>
+            <Select
+              value={String(sampleIndex)}
+              onValueChange={(value) => setSampleIndex(Number(value))}
+            >
+              <SelectTrigger data-testid="select-test-sample">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {recipients.slice(0, SAMPLE_OPTIONS).map((recipient, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {recipient.name
+                      ? `${recipient.name} <${recipient.email}>`
+                      : recipient.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {recipients.length > SAMPLE_OPTIONS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {SAMPLE_OPTIONS} of {recipients.length} recipients
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Send to</Label>
+            {seedAddresses.map((address) => (
+              <div key={address} className="flex items-center gap-2">
+                <Checkbox
+                  id={`seed-${address}`}
+                  checked={selectedSeeds.includes(address)}
+                  onCheckedChange={(checked) => toggleSeed(address, checked === true)}
+                  data-testid={`checkbox-seed-${address}`}
+                />
+                <Label htmlFor={`seed-${address}`} className="font-normal">
+                  {address}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={() => onSend(sampleIndex, selectedSeeds)}
+            disabled={isSending || selectedSeeds.length === 0}
+            data-testid="button-send-test-confirm"
+          >
+            {isSending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Send Test
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+/**
+ * Line diff via longest common subsequence. Campaign bodies are a few
+ * hundred lines at most, so the quadratic table is fine.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length;
+  const cols = after.length;
+  // lcs[i][j]: length of the LCS of before[i..] and after[j..]
+  const lcs = Array.from({ length: rows + 1 }, () =>
+    new Array<number>(cols + 1).fill(0),
+  );
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      result.push({ type: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: before[i++] });
+    } else {
+      result.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < rows) result.push({ type: "removed", text: before[i++] });
+  while (j < cols) result.push({ type: "added", text: after[j++] });
+  return result;
+}
+
+// Breaks editor HTML into one line per block element so a body diff lines
+// up with paragraphs rather than one giant line.
+export function splitHtmlBlocks(html: string): string[] {
+  return html
+    .replace(/(<\/(?:p|h[1-6]|li|ul|ol|div|blockquote)>|<br\s*\/?>)/gi, "$1\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some((line) => line.type !== "same");
+}
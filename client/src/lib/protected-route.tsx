@@ -0,0 +1,34 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+  roles,
+}: {
+  path: string;
+  component: ComponentType;
+  // Restricts the page to these roles; anyone else lands on the home page
+  roles?: UserRole[];
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !user ? (
+        <Redirect to="/auth" />
+      ) : roles && !roles.includes(user.role) ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
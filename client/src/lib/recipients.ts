@@ -0,0 +1,245 @@
+import type { EmailRecipient } from "@shared/schema";
+import { normalizeFieldName } from "@shared/merge";
+
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+const STRICT_EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const NAME_HEADERS = ["name", "full_name", "customer_name"];
+
+export type RecipientTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+export type ColumnMapping = {
+  emailColumn: number;
+  nameColumn: number | null;
+  fieldColumns: number[];
+};
+
+export type InvalidRow = {
+  // 1-based, counted like the spreadsheet rows the user sees
+  rowNumber: number;
+  values: string[];
+  reason: string;
+};
+
+export function parseEmails(text: string): string[] {
+  const matches = text.match(new RegExp(EMAIL_PATTERN, "g"));
+  return matches ? Array.from(new Set(matches)) : [];
+}
+
+/**
+ * Splits pasted or uploaded text into cells. Excel pastes are tab-separated;
+ * otherwise the text is read as CSV, with quoted cells that may contain
+ * commas, quotes ("") and line breaks.
+ */
+export function parseDelimited(text: string): string[][] {
+  const delimiter = text.includes("\t") ? "\t" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value !== ""));
+}
+
+// A first row without a single email address is taken as the header row.
+export function detectHeader(rows: string[][]): boolean {
+  return (
+    rows.length > 1 && !rows[0].some((cell) => EMAIL_PATTERN.test(cell))
+  );
+}
+
+export function toRecipientTable(
+  rows: string[][],
+  hasHeader: boolean,
+): RecipientTable {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const headerRow = hasHeader ? rows[0] : [];
+  const headers = Array.from(
+    { length: width },
+    (_, index) => headerRow[index]?.trim() || `column_${index + 1}`,
+  );
+  const body = (hasHeader ? rows.slice(1) : rows).map((row) =>
+    Array.from({ length: width }, (_, index) => row[index] ?? ""),
+  );
+  return { headers, rows: body };
+}
+
+export function guessMapping(table: RecipientTable): ColumnMapping {
+  const emailCounts = table.headers.map(
+    (_, index) =>
+      table.rows.filter((row) => EMAIL_PATTERN.test(row[index])).length,
+  );
+  const emailColumn = emailCounts.indexOf(Math.max(0, ...emailCounts));
+  const nameColumn = table.headers.findIndex(
+    (header, index) =>
+      index !== emailColumn &&
+      NAME_HEADERS.includes(normalizeFieldName(header)),
+  );
+  return {
+    emailColumn,
+    nameColumn: nameColumn >= 0 ? nameColumn : null,
+    fieldColumns: table.headers
+      .map((_, index) => index)
+      .filter((index) => index !== emailColumn && index !== nameColumn),
+  };
+}
+
+export function buildRecipients(
+  table: RecipientTable,
+  mapping: ColumnMapping,
+  firstRowNumber = 1,
+): { recipients: EmailRecipient[]; invalidRows: InvalidRow[] } {
+  const recipients: EmailRecipient[] = [];
+  const invalidRows: InvalidRow[] = [];
+  const firstSeen = new Map<string, number>();
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = firstRowNumber + index;
+    const email = (row[mapping.emailColumn] ?? "").trim();
+
+    if (email === "") {
+      invalidRows.push({ rowNumber, values: row, reason: "No email address" });
+      return;
+    }
+    if (!STRICT_EMAIL_PATTERN.test(email)) {
+      invalidRows.push({ rowNumber, values: row, reason: "Invalid email address" });
+      return;
+    }
+    const duplicateOf = firstSeen.get(email.toLowerCase());
+    if (duplicateOf !== undefined) {
+      invalidRows.push({
+        rowNumber,
+        values: row,
+        reason: `Duplicate of row ${duplicateOf}`,
+      });
+      return;
+    }
+    firstSeen.set(email.toLowerCase(), rowNumber);
+
+    const recipient: EmailRecipient = { email, fields: {} };
+    if (mapping.nameColumn !== null && row[mapping.nameColumn]) {
+      recipient.name = row[mapping.nameColumn];
+    }
+    for (const column of mapping.fieldColumns) {
+      if (row[column] !== "") {
+        recipient.fields[table.headers[column]] = row[column];
+      }
+    }
+    recipients.push(recipient);
+  });
+
+  return { recipients, invalidRows };
+}
+
+/**
+ * Parses text typed or pasted into the recipients box. Rows copied from
+ * Excel arrive tab-separated; their other columns are kept as merge fields,
+ * named after the header row when there is one. Anything else falls back to
+ * picking email addresses out of the text.
+ */
+export function parseRecipients(text: string): EmailRecipient[] {
+  if (!text.includes("\t")) {
+    return parseEmails(text).map((email) => ({ email, fields: {} }));
+  }
+
+  const rows = parseDelimited(text);
+  const table = toRecipientTable(rows, detectHeader(rows));
+  return buildRecipients(table, guessMapping(table)).recipients;
+}
+
+// Drops the rows for one address from tab-separated recipients text. Rows
+// are matched on the email column parseRecipients reads, not on their text,
+// so removing a@x.com keeps the row for ba@x.com.
+export function removeRecipientRows(text: string, email: string): string {
+  const rows = parseDelimited(text);
+  const hasHeader = detectHeader(rows);
+  const { emailColumn } = guessMapping(toRecipientTable(rows, hasHeader));
+  return rows
+    .filter(
+      (row, index) =>
+        (hasHeader && index === 0) || (row[emailColumn] ?? "") !== email,
+    )
+    .map((row) =>
+      row.map((value) => value.replace(/[\t\r\n]+/g, " ")).join("\t"),
+    )
+    .join("\n");
+}
+
+// Inverse of parseRecipients, used to show imported recipients in the
+// recipients box as tab-separated rows under a header row.
+export function formatRecipients(recipients: EmailRecipient[]): string {
+  const fieldNames = Array.from(
+    new Set(recipients.flatMap((recipient) => Object.keys(recipient.fields))),
+  );
+  const hasName = recipients.some((recipient) => recipient.name);
+  if (!hasName && fieldNames.length === 0) {
+    return recipients.map((recipient) => recipient.email).join("\n");
+  }
+
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, " ");
+  const header = ["Email", ...(hasName ? ["Name"] : []), ...fieldNames];
+  const lines = recipients.map((recipient) =>
+    [
+      recipient.email,
+      ...(hasName ? [recipient.name ?? ""] : []),
+      ...fieldNames.map((name) => recipient.fields[name] ?? ""),
+    ]
+      .map(clean)
+      .join("\t"),
+  );
+  return [header.map(clean).join("\t"), ...lines].join("\n");
+}
+
+// .xlsx workbooks are read with read-excel-file (first sheet only); the
+// legacy binary .xls format is not supported. Everything else is read as
+// delimited text.
+export async function readRecipientFile(file: File): Promise<string[][]> {
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error("Old .xls workbooks are not supported; save the sheet as .xlsx or CSV");
+  }
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import("read-excel-file/browser");
+    const rows = await readSheet(file);
+    return rows
+      .map((row) =>
+        row.map((cell) => {
+          if (cell === null) return "";
+          if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+          return String(cell).trim();
+        }),
+      )
+      .filter((row) => row.some((cell) => cell !== ""));
+  }
+  return parseDelimited(await file.text());
+}
@@ -0,0 +1,75 @@
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+// IST first; the rest cover where most NRI customers live.
+export const TIME_ZONES = [
+  { value: "Asia/Kolkata", label: "India (IST)" },
+  { value: "Asia/Dubai", label: "Dubai (GST)" },
+  { value: "Asia/Singapore", label: "Singapore (SGT)" },
+  { value: "Europe/London", label: "London (GMT/BST)" },
+  { value: "America/New_York", label: "New York (ET)" },
+  { value: "America/Los_Angeles", label: "Los Angeles (PT)" },
+  { value: "Australia/Sydney", label: "Sydney (AET)" },
+  { value: "UTC", label: "UTC" },
+];
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant.
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in the given zone, as produced by an
+ * <input type="datetime-local"> ("2025-11-17T09:00"), to the instant it
+ * denotes, independent of the browser's own zone.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const [date, time = "00:00"] = localDateTime.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  let instant = wallClock - zoneOffset(wallClock, timeZone);
+  // Re-check once in case the guess crossed a DST transition.
+  instant = wallClock - zoneOffset(instant, timeZone);
+  return new Date(instant);
+}
+
+// Inverse of zonedTimeToUtc, for pre-filling a datetime-local input.
+export function toZonedInputValue(instant: Date, timeZone: string): string {
+  const shifted = new Date(
+    instant.getTime() + zoneOffset(instant.getTime(), timeZone),
+  );
+  return shifted.toISOString().slice(0, 16);
+}
+
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone,
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(instant);
+}
@@ -0,0 +1,540 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Loader2,
+  Paperclip,
+  XCircle,
+} from "lucide-react";
+import { APPROVAL_CAMPAIGNS_KEY } from "@/components/approval-campaigns";
+import { EmailPreviewFrame, useFrameImage } from "@/components/email-preview-frame";
+import { diffLines, hasChanges, splitHtmlBlocks, type DiffLine } from "@/lib/diff";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@/lib/timezone";
+import {
+  RECIPIENT_LINK_PLACEHOLDERS,
+  getMergeVariables,
+  renderTemplate,
+} from "@shared/merge";
+import { decorateBody, formatSender, senderLogoUrl } from "@shared/sender";
+import {
+  CAMPAIGN_CATEGORY_LABELS,
+  type AuditAction,
+  type CampaignDetail,
+  type CampaignReview,
+  type EmailStatusRecord,
+  type PublicSenderIdentity,
+  type PublicSmtpProfile,
+} from "@shared/schema";
+
+// Recipients offered in the preview picker
+const PREVIEW_RECIPIENTS = 50;
+
+const AUDIT_LABELS: Record<AuditAction, string> = {
+  submitted: "Submitted for approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  dispatched: "Sent",
+  superseded: "Replaced by a revision",
+  cancelled: "Cancelled",
+};
+
+const toRecipient = (record: EmailStatusRecord) => ({
+  email: record.email,
+  name: record.name ?? undefined,
+  fields: record.fields,
+});
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="rounded-md border font-mono text-xs overflow-x-auto">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === "added"
+              ? "bg-green-500/10 text-green-700 dark:text-green-400 px-2"
+              : line.type === "removed"
+                ? "bg-red-500/10 text-red-700 dark:text-red-400 px-2 line-through"
+                : "px-2 text-muted-foreground"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ChangesCard({
+  campaign,
+  previous,
+}: {
+  campaign: CampaignDetail;
+  previous: CampaignDetail;
+}) {
+  const subjectDiff = diffLines([previous.subject], [campaign.subject]);
+  const bodyDiff = diffLines(
+    splitHtmlBlocks(previous.htmlBody),
+    splitHtmlBlocks(campaign.htmlBody),
+  );
+  const before = new Set(previous.statuses.map((s) => s.email));
+  const after = new Set(campaign.statuses.map((s) => s.email));
+  const added = Array.from(after).filter((email) => !before.has(email));
+  const removed = Array.from(before).filter((email) => !after.has(email));
+  const attachmentDiff = diffLines(
+    previous.attachments.map((a) => a.filename),
+    campaign.attachments.map((a) => a.filename),
+  );
+  const copyDiff = diffLines(
+    [...previous.cc.map((e) => `CC ${e}`), ...previous.bcc.map((e) => `BCC ${e}`)],
+    [...campaign.cc.map((e) => `CC ${e}`), ...campaign.bcc.map((e) => `BCC ${e}`)],
+  );
+
+  const unchanged =
+    !hasChanges(subjectDiff) &&
+    !hasChanges(bodyDiff) &&
+    added.length === 0 &&
+    removed.length === 0 &&
+    !hasChanges(attachmentDiff) &&
+    !hasChanges(copyDiff);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Changes Since Last Approval</CardTitle>
+        <CardDescription>
+          Compared with the version approved on{" "}
+          {previous.approvedAt &&
+            formatInTimeZone(new Date(previous.approvedAt), DEFAULT_TIME_ZONE)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unchanged && (
+          <p className="text-sm text-muted-foreground">No changes.</p>
+        )}
+        {hasChanges(subjectDiff) && (
+          <div className="space-y-2">
+            <Label>Subject</Label>
+            <DiffView lines={subjectDiff} />
+          </div>
+        )}
+        {hasChanges(bodyDiff) && (
+          <div className="space-y-2">
+            <Label>Body</Label>
+            <DiffView lines={bodyDiff} />
+          </div>
+        )}
+        {(added.length > 0 || removed.length > 0) && (
+          <div className="space-y-2">
+            <Label>
+              Recipients: {added.length} added, {removed.length} removed
+            </Label>
+            <DiffView
+              lines={[
+                ...removed.map((text) => ({ type: "removed" as const, text })),
+                ...added.map((text) => ({ type: "added" as const, text })),
+              ]}
+            />
+          </div>
+        )}
+        {hasChanges(attachmentDiff) && (
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            <DiffView lines={attachmentDiff} />
+          </div>
+        )}
+        {hasChanges(copyDiff) && (
+          <div className="space-y-2">
+            <Label>CC / BCC</Label>
+            <DiffView lines={copyDiff} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CampaignReviewPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [comment, setComment] = useState("");
+  const [previewIndex, setPreviewIndex] = useState(0);
+
+  const reviewKey = `/api/campaigns/${id}/review`;
+  const { data: review, isLoading } = useQuery<CampaignReview>({
+    queryKey: [reviewKey],
+  });
+  const { data: senderIdentities = [] } = useQuery<PublicSenderIdentity[]>({
+    queryKey: ["/api/sender-identities"],
+  });
+  const { data: smtpProfiles = [] } = useQuery<PublicSmtpProfile[]>({
+    queryKey: ["/api/smtp-profiles"],
+  });
+  const profileName = (id: string) =>
+    smtpProfiles.find((profile) => profile.id === id)?.name ?? "Deleted profile";
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      await apiRequest("POST", `/api/campaigns/${id}/${decision}`, {
+        comment: comment.trim() || undefined,
+      });
+      return decision;
+    },
+    onSuccess: (decision) => {
+      queryClient.invalidateQueries({ queryKey: [reviewKey] });
+      queryClient.invalidateQueries({ queryKey: [APPROVAL_CAMPAIGNS_KEY] });
+      toast({
+        title: decision === "approve" ? "Campaign Approved" : "Campaign Rejected",
+        description:
+          decision === "approve"
+            ? "The author can now send it."
+            : "It has been returned to the author as a draft.",
+      });
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const identity = senderIdentities.find(
+    (entry) => entry.id === review?.campaign.senderIdentityId,
+  );
+  const logoSrc = useFrameImage(identity && senderLogoUrl(identity));
+
+  if (isLoading || !review) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const { campaign, previousApproved, audit, testSends } = review;
+  const previewRecipient = campaign.statuses[previewIndex];
+  const variables = {
+    ...(previewRecipient ? getMergeVariables(toRecipient(previewRecipient)) : {}),
+    ...Object.fromEntries(RECIPIENT_LINK_PLACEHOLDERS.map((name) => [name, "#"])),
+  };
+  const isAuthor = campaign.createdBy === user?.id;
+  const canDecide =
+    campaign.status === "pending_approval" &&
+    user?.role !== "composer" &&
+    !isAuthor;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back to composer">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Review Campaign</h1>
+          <Badge variant="secondary" data-testid="badge-campaign-status">
+            {campaign.status.replace("_", " ")}
+          </Badge>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg">Preview</CardTitle>
+                <CardDescription>
+                  Rendered exactly as this recipient will receive it
+                </CardDescription>
+              </div>
+              <Select
+                value={String(previewIndex)}
+                onValueChange={(value) => setPreviewIndex(Number(value))}
+              >
+                <SelectTrigger
+                  className="w-64"
+                  data-testid="select-preview-recipient"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {campaign.statuses
+                    .slice(0, PREVIEW_RECIPIENTS)
+                    .map((record, index) => (
+                      <SelectItem key={record.id} value={String(index)}>
+                        {record.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-lg font-semibold">
+                {renderTemplate(campaign.subject, variables)}
+              </div>
+              <Separator />
+              <EmailPreviewFrame
+                title="Message preview"
+                html={renderTemplate(
+                  decorateBody(campaign.htmlBody, {
+                    signatureHtml: campaign.signatureHtml,
+                    logoSrc,
+                  }),
+                  variables,
+                  { escapeHtml: true },
+                )}
+                data-testid="review-preview-body"
+              />
+            </CardContent>
+          </Card>
+
+          {previousApproved && (
+            <ChangesCard campaign={campaign} previous={previousApproved} />
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">From</div>
+                <div>{formatSender(campaign.fromName, campaign.fromEmail)}</div>
+                {campaign.replyTo && (
+                  <div className="text-xs text-muted-foreground">
+                    Reply-To {campaign.replyTo}
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="text-muted-foreground">Sends via</div>
+                <div data-testid="text-review-profile">
+                  {profileName(campaign.smtpProfileId)}
+                </div>
+                {campaign.fallbackProfileIds.map((id, index) => (
+                  <div
+                    key={id}
+                    className="text-xs text-muted-foreground"
+                    data-testid={`text-review-fallback-${index}`}
+                  >
+                    Fallback {index + 1}: {profileName(id)}
+                  </div>
+                ))}
+              </div>
+              <div>
+                <div className="text-muted-foreground">Category</div>
+                <div data-testid="text-review-category">
+                  {CAMPAIGN_CATEGORY_LABELS[campaign.category]}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Recipients</div>
+                <div
+                  className="text-2xl font-semibold"
+                  data-testid="text-review-recipient-count"
+                >
+                  {campaign.recipientCount}
+                </div>
+                <div className="max-h-40 overflow-y-auto mt-2 space-y-1 text-xs">
+                  {campaign.statuses.map((record) => (
+                    <div key={record.id} className="truncate">
+                      {record.name ? `${record.name} <${record.email}>` : record.email}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {(campaign.cc.length > 0 || campaign.bcc.length > 0) && (
+                <div>
+                  <div className="text-muted-foreground">CC / BCC</div>
+                  {campaign.cc.map((email) => (
+                    <div key={`cc-${email}`}>CC {email}</div>
+                  ))}
+                  {campaign.bcc.map((email) => (
+                    <div key={`bcc-${email}`}>BCC {email}</div>
+                  ))}
+                </div>
+              )}
+              {campaign.scheduledAt && (
+                <div>
+                  <div className="text-muted-foreground">Scheduled for</div>
+                  <div>
+                    {formatInTimeZone(
+                      new Date(campaign.scheduledAt),
+                      campaign.timeZone ?? DEFAULT_TIME_ZONE,
+                    )}
+                  </div>
+                </div>
+              )}
+              <div>
+                <div className="text-muted-foreground">Attachments</div>
+                {campaign.attachments.length === 0 ? (
+                  <div>None</div>
+                ) : (
+                  campaign.attachments.map((attachment, index) => (
+                    <a
+                      key={index}
+                      href={`/api/campaigns/${campaign.id}/attachments/${index}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-2 text-primary hover:underline"
+                      data-testid={`link-attachment-${index}`}
+                    >
+                      <Paperclip className="h-3 w-3 flex-shrink-0" />
+                      <span className="truncate">{attachment.filename}</span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {(attachment.size / 1024).toFixed(1)} KB
+                      </span>
+                    </a>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Test Sends</CardTitle>
+              {testSends.length === 0 && (
+                <CardDescription>
+                  Not tested yet: this exact content was never sent to the seed list
+                </CardDescription>
+              )}
+            </CardHeader>
+            {testSends.length > 0 && (
+              <CardContent className="space-y-3 text-sm">
+                {testSends.map((record) => (
+                  <div key={record.id} data-testid={`test-send-${record.id}`}>
+                    <div>
+                      <span className="font-medium">
+                        {record.seedAddresses.length - record.failures.length} of{" "}
+                        {record.seedAddresses.length} seed(s)
+                      </span>{" "}
+                      by {record.username}, as {record.sampleEmail}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatInTimeZone(new Date(record.createdAt), DEFAULT_TIME_ZONE)}
+                      {record.sentVia && ` · via ${record.sentVia}`}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {record.seedAddresses.join(", ")}
+                    </div>
+                    {record.failures.map((failure) => (
+                      <div key={failure.email} className="text-xs text-destructive truncate">
+                        {failure.email}: {failure.error}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </CardContent>
+            )}
+          </Card>
+
+          {campaign.status === "pending_approval" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Decision</CardTitle>
+                {!canDecide && (
+                  <CardDescription>
+                    {isAuthor
+                      ? "Waiting for another approver to review your campaign"
+                      : "Only approvers can approve campaigns"}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              {canDecide && (
+                <CardContent className="space-y-4">
+                  <Textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="Comment for the author (optional)"
+                    rows={3}
+                    data-testid="input-review-comment"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => decisionMutation.mutate("reject")}
+                      disabled={decisionMutation.isPending}
+                      data-testid="button-reject"
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button
+                      type="button"
+                      className="flex-1"
+                      onClick={() => decisionMutation.mutate("approve")}
+                      disabled={decisionMutation.isPending}
+                      data-testid="button-approve"
+                    >
+                      <CheckCircle2 className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Audit Trail</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {audit.map((entry) => (
+                <div key={entry.id} data-testid={`audit-entry-${entry.id}`}>
+                  <div>
+                    <span className="font-medium">{AUDIT_LABELS[entry.action]}</span>{" "}
+                    by {entry.username}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatInTimeZone(new Date(entry.createdAt), DEFAULT_TIME_ZONE)}
+                  </div>
+                  {entry.comment && (
+                    <div className="text-xs mt-1">“{entry.comment}”</div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
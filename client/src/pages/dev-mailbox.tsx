@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EmailPreviewFrame } from "@/components/email-preview-frame";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowLeft, ExternalLink, Inbox, Loader2, Paperclip, Trash2 } from "lucide-react";
+import type { MailboxMessage, MailboxMessageSummary } from "@shared/schema";
+
+const MAILBOX_KEY = "/api/dev/mailbox";
+const REFRESH_INTERVAL_MS = 3000;
+
+/**
+ * Development only: everything sent through the "Dev Mailbox" SMTP profile
+ * lands here instead of being delivered.
+ */
+export default function DevMailboxPage() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: messages, isLoading, error } = useQuery<MailboxMessageSummary[]>({
+    queryKey: [MAILBOX_KEY],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+  const activeId = selectedId ?? messages?.[0]?.id ?? null;
+  const { data: message } = useQuery<MailboxMessage>({
+    queryKey: [`${MAILBOX_KEY}/${activeId}`],
+    enabled: activeId !== null,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", MAILBOX_KEY);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: [MAILBOX_KEY] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/" aria-label="Back to composer">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-semibold">Dev Mailbox</h1>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => clearMutation.mutate()}
+            disabled={clearMutation.isPending || !messages?.length}
+            data-testid="button-clear-mailbox"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg">Inbox</CardTitle>
+            <CardDescription>
+              Send with the "Dev Mailbox" SMTP profile; nothing is delivered
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            ) : error ? (
+              <p className="text-sm text-muted-foreground">
+                The dev mailbox only runs in development.
+              </p>
+            ) : messages?.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+                <Inbox className="h-8 w-8" />
+                No messages yet
+              </div>
+            ) : (
+              <div className="max-h-[70vh] overflow-y-auto space-y-1">
+                {messages?.map((entry) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => setSelectedId(entry.id)}
+                    className={`w-full text-left rounded-md border p-2 text-sm hover-elevate ${
+                      entry.id === activeId ? "border-primary" : ""
+                    }`}
+                    data-testid={`button-mailbox-message-${entry.id}`}
+                  >
+                    <div className="truncate font-medium">
+                      {entry.subject || "(no subject)"}
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {entry.envelopeTo.join(", ")}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(entry.receivedAt).toLocaleTimeString()}
+                      {entry.attachmentCount > 0 && ` · ${entry.attachmentCount} attachment(s)`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {message ? (
+            <>
+              <CardHeader className="space-y-2">
+                <CardTitle className="text-lg" data-testid="text-mailbox-subject">
+                  {message.subject || "(no subject)"}
+                </CardTitle>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                  <span className="text-muted-foreground">From</span>
+                  <span>{message.from}</span>
+                  <span className="text-muted-foreground">To</span>
+                  <span>{message.to}</span>
+                  <span className="text-muted-foreground">Envelope</span>
+                  <span>
+                    {message.envelopeFrom} → {message.envelopeTo.join(", ")}
+                  </span>
+                  <span className="text-muted-foreground">Size</span>
+                  <span>{(message.size / 1024).toFixed(1)} KB</span>
+                </div>
+                {message.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {message.attachments.map((attachment, index) => (
+                      <a
+                        key={index}
+                        href={`${MAILBOX_KEY}/${message.id}/attachments/${index}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        data-testid={`link-mailbox-attachment-${index}`}
+                      >
+                        <Badge variant="secondary" className="gap-1">
+                          <Paperclip className="h-3 w-3" />
+                          {attachment.filename} ({(attachment.size / 1024).toFixed(1)} KB)
+                          {attachment.cid && " · inline"}
+                        </Badge>
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue={message.html ? "html" : "text"}>
+                  <TabsList>
+                    <TabsTrigger value="html" disabled={!message.html}>
+                      HTML
+                    </TabsTrigger>
+                    <TabsTrigger value="text">Text</TabsTrigger>
+                    <TabsTrigger value="headers">Headers</TabsTrigger>
+                    <TabsTrigger value="raw">Raw</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html">
+                    <EmailPreviewFrame
+                      title="HTML body"
+                      html={message.html ?? ""}
+                      data-testid="frame-mailbox-html"
+                    />
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <pre className="whitespace-pre-wrap text-sm">{message.text}</pre>
+                  </TabsContent>
+                  <TabsContent value="headers">
+                    <pre className="whitespace-pre-wrap break-all text-xs">
+                      {message.headers.map((header) => header.line).join("\n")}
+                    </pre>
+                  </TabsContent>
+                  <TabsContent value="raw" className="space-y-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <a
+                        href={`${MAILBOX_KEY}/${message.id}/raw`}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Open raw MIME
+                      </a>
+                    </Button>
+                    <RawMessage id={message.id} />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Select a message to inspect it.
+            </CardContent>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+function RawMessage({ id }: { id: number }) {
+  const { data: raw, isLoading } = useQuery<string>({
+    queryKey: [`${MAILBOX_KEY}/${id}/raw`],
+    queryFn: async () => (await apiRequest("GET", `${MAILBOX_KEY}/${id}/raw`)).text(),
+  });
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+  return (
+    <pre
+      className="max-h-[60vh] overflow-auto whitespace-pre-wrap break-all rounded-md border p-3 text-xs"
+      data-testid="text-mailbox-raw"
+    >
+      {raw}
+    </pre>
+  );
+}
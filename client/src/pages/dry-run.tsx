@@ -0,0 +1,221 @@
+import { Fragment, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EmailPreviewFrame, useFrameImage } from "@/components/email-preview-frame";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowLeft, Loader2, Paperclip } from "lucide-react";
+import { SENDER_LOGO_CID, senderLogoUrl } from "@shared/sender";
+import type {
+  CampaignDetail,
+  CapturedMessage,
+  CapturedMessageSummary,
+  PublicSenderIdentity,
+} from "@shared/schema";
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+/**
+ * Browses the messages a dry run captured, one recipient at a time, exactly
+ * as they would have been sent.
+ */
+export default function DryRunPage() {
+  const { id } = useParams<{ id: string }>();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: campaign } = useQuery<CampaignDetail>({
+    queryKey: [`/api/campaigns/${id}`],
+  });
+  const { data: captures, isLoading } = useQuery<CapturedMessageSummary[]>({
+    queryKey: [`/api/campaigns/${id}/captures`],
+  });
+  const { data: senderIdentities = [] } = useQuery<PublicSenderIdentity[]>({
+    queryKey: ["/api/sender-identities"],
+  });
+
+  const activeId = selectedId ?? captures?.[0]?.id ?? null;
+  const { data: message } = useQuery<CapturedMessage>({
+    queryKey: [`/api/campaigns/${id}/captures/${activeId}`],
+    enabled: activeId !== null,
+  });
+  // The logo travels as an inline part; point previews at the identity's copy
+  const identity = senderIdentities.find(
+    (entry) => entry.id === campaign?.senderIdentityId,
+  );
+  const logoSrc = useFrameImage(identity && senderLogoUrl(identity));
+
+  if (isLoading || !captures || !campaign) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const failed = campaign.statuses.filter((record) => record.status === "failed");
+  const totalSize = captures.reduce((sum, capture) => sum + capture.size, 0);
+  const html = message
+    ? message.html.replaceAll(`cid:${SENDER_LOGO_CID}`, logoSrc ?? "")
+    : "";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back to composer">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Dry Run</h1>
+          {!campaign.dryRun && (
+            <Badge variant="destructive">Not a dry run</Badge>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg">Captured Messages</CardTitle>
+            <CardDescription data-testid="text-dry-run-summary">
+              {captures.length} of {campaign.recipientCount} rendered,{" "}
+              {formatSize(totalSize)} in total
+              {failed.length > 0 && `, ${failed.length} failed`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="max-h-[60vh] overflow-y-auto space-y-1">
+              {captures.map((capture) => (
+                <button
+                  key={capture.id}
+                  type="button"
+                  onClick={() => setSelectedId(capture.id)}
+                  className={`w-full text-left rounded-md border p-2 text-sm hover-elevate ${
+                    capture.id === activeId ? "border-primary" : ""
+                  }`}
+                  data-testid={`button-capture-${capture.id}`}
+                >
+                  <div className="truncate">{capture.email}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatSize(capture.size)}
+                    {capture.attachmentCount > 0 &&
+                      ` · ${capture.attachmentCount} attachment(s)`}
+                  </div>
+                </button>
+              ))}
+              {captures.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Nothing captured yet.
+                </p>
+              )}
+            </div>
+            {failed.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-1 text-xs">
+                  {failed.map((record) => (
+                    <div key={record.id} className="truncate text-destructive">
+                      {record.email}: {record.error}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {message ? (
+            <>
+              <CardHeader className="space-y-2">
+                <CardTitle className="text-lg" data-testid="text-capture-subject">
+                  {message.subject}
+                </CardTitle>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                  <span className="text-muted-foreground">From</span>
+                  <span>{message.from}</span>
+                  {message.replyTo && (
+                    <>
+                      <span className="text-muted-foreground">Reply-To</span>
+                      <span>{message.replyTo}</span>
+                    </>
+                  )}
+                  <span className="text-muted-foreground">To</span>
+                  <span>{message.email}</span>
+                  {message.cc.length > 0 && (
+                    <>
+                      <span className="text-muted-foreground">CC</span>
+                      <span>{message.cc.join(", ")}</span>
+                    </>
+                  )}
+                  {message.bcc.length > 0 && (
+                    <>
+                      <span className="text-muted-foreground">BCC</span>
+                      <span>{message.bcc.join(", ")}</span>
+                    </>
+                  )}
+                  {Object.entries(message.headers).map(([name, value]) => (
+                    <Fragment key={name}>
+                      <span className="text-muted-foreground">{name}</span>
+                      <span className="break-all">{value}</span>
+                    </Fragment>
+                  ))}
+                  <span className="text-muted-foreground">Size</span>
+                  <span data-testid="text-capture-size">{formatSize(message.size)}</span>
+                </div>
+                {message.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {message.attachments.map((attachment, index) => (
+                      <Badge key={index} variant="secondary" className="gap-1">
+                        <Paperclip className="h-3 w-3" />
+                        {attachment.filename} ({formatSize(attachment.size)})
+                        {attachment.cid && " · inline"}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="html">
+                  <TabsList>
+                    <TabsTrigger value="html">HTML</TabsTrigger>
+                    <TabsTrigger value="text">Text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="html">
+                    <EmailPreviewFrame
+                      title="HTML body"
+                      html={html}
+                      data-testid="capture-html"
+                    />
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <pre className="whitespace-pre-wrap text-sm" data-testid="capture-text">
+                      {message.text}
+                    </pre>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Select a recipient to see their message.
+            </CardContent>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
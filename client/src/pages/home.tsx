@@ -1,9 +1,11 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "wouter";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Card,
   CardContent,
@@ -14,10 +16,18 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import {
   Form,
   FormControl,
@@ -52,18 +62,81 @@ import {
   Loader2,
   Upload,
   AlertCircle,
+  FileSpreadsheet,
+  CalendarClock,
+  RotateCw,
+  LogOut,
+  Users,
+  Server,
+  Contact,
+  ShieldAlert,
+  FlaskConical,
+  Inbox,
+  MailCheck,
+  Ban,
 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  formatRecipients,
+  parseEmails,
+  parseRecipients,
+  removeRecipientRows,
+} from "@/lib/recipients";
+import { RecipientImportDialog } from "@/components/recipient-import-dialog";
+import { TestSendDialog } from "@/components/test-send-dialog";
+import { TemplatePicker } from "@/components/template-picker";
+import { EmailPreviewFrame, useFrameImage } from "@/components/email-preview-frame";
+import {
+  ApprovalCampaigns,
+  APPROVAL_CAMPAIGNS_KEY,
+} from "@/components/approval-campaigns";
+import { SchedulePicker } from "@/components/schedule-picker";
+import {
+  ScheduledCampaigns,
+  SCHEDULED_CAMPAIGNS_KEY,
+} from "@/components/scheduled-campaigns";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  toZonedInputValue,
+  zonedTimeToUtc,
+} from "@/lib/timezone";
 import ReactQuill from "react-quill";
 import "react-quill/dist/quill.snow.css";
 import {
-  smtpConfigSchema,
+  CAMPAIGN_CATEGORY_LABELS,
+  SUPPRESSION_BATCH_LIMIT,
+  campaignCategoryValues,
+  type Campaign,
+  type CampaignDetail,
+  type CampaignProgress,
+  type EmailRecipient,
   type EmailStatus,
-  type SendEmailResponse,
+  type ProgressEvent,
+  type PublicSenderIdentity,
+  type PublicSmtpProfile,
+  type RateLimit,
+  type SendPolicy,
+  type SuppressedRecipient,
+  type TestSend,
 } from "@shared/schema";
+import {
+  RECIPIENT_LINK_PLACEHOLDERS,
+  UNSUBSCRIBE_FOOTER_HTML,
+  UNSUBSCRIBE_URL_PLACEHOLDER,
+  extractPlaceholders,
+  getMergeVariables,
+  htmlToText,
+  renderTemplate,
+} from "@shared/merge";
+import { decorateBody, formatSender, senderLogoUrl } from "@shared/sender";
 
 const emailFormSchema = z.object({
-  smtpUsername: z.string().min(1, "SMTP username is required"),
-  smtpPassword: z.string().min(1, "SMTP password is required"),
+  smtpProfileId: z.string().min(1, "Choose an SMTP profile"),
+  senderIdentityId: z.string().min(1, "Choose a sender identity"),
+  fallbackProfileIds: z.array(z.string()),
+  // No default, so marketing mail is never sent as transactional by accident
+  category: z.string().min(1, "Choose a category"),
   subject: z.string().min(1, "Subject is required"),
   htmlBody: z.string().min(1, "Email body is required"),
   recipientsText: z.string().min(1, "At least one recipient is required"),
@@ -73,23 +146,66 @@ const emailFormSchema = z.object({
 
 type EmailFormData = z.infer<typeof emailFormSchema>;
 
+const ACTIVE_CAMPAIGN_KEY = "activeCampaignId";
+
+const describeRateLimit = ({ perSecond, perMinute, perHour }: RateLimit) => {
+  const limits = [
+    perSecond && `${perSecond}/second`,
+    perMinute && `${perMinute}/minute`,
+    perHour && `${perHour}/hour`,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(", ") : "No limit";
+};
+
 export default function Home() {
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
+  const { data: policy } = useQuery<SendPolicy>({
+    queryKey: ["/api/policy"],
+  });
+  const { data: smtpProfiles = [] } = useQuery<PublicSmtpProfile[]>({
+    queryKey: ["/api/smtp-profiles"],
+  });
+  const { data: senderIdentities = [] } = useQuery<PublicSenderIdentity[]>({
+    queryKey: ["/api/sender-identities"],
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
-  const [recipients, setRecipients] = useState<string[]>([]);
+  const [recipients, setRecipients] = useState<EmailRecipient[]>([]);
   const [showCCBCC, setShowCCBCC] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isTestSendOpen, setIsTestSendOpen] = useState(false);
+  const [isTestSending, setIsTestSending] = useState(false);
   const [isSMTPConfigOpen, setIsSMTPConfigOpen] = useState(true);
   const [emailStatuses, setEmailStatuses] = useState<EmailStatus[]>([]);
   const [isSending, setIsSending] = useState(false);
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  // Whether the campaign being shown is a dry run (captured, not sent)
+  const [isDryRun, setIsDryRun] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [progress, setProgress] = useState<CampaignProgress | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [isScheduled, setIsScheduled] = useState(false);
+  // Campaign the composer is revising, replaced when the form is submitted
+  const [revising, setRevising] = useState<Campaign | null>(null);
+  // Sent with test sends and the submission, so the server only links test
+  // sends to the campaign they were made for; a revision starts a new one
+  const [draftId, setDraftId] = useState(() => crypto.randomUUID());
+  const [schedule, setSchedule] = useState({
+    localDateTime: "",
+    timeZone: DEFAULT_TIME_ZONE,
+  });
 
   const form = useForm<EmailFormData>({
     resolver: zodResolver(emailFormSchema),
     defaultValues: {
-      smtpUsername: "",
-      smtpPassword: "",
+      smtpProfileId: "",
+      senderIdentityId: "",
+      fallbackProfileIds: [],
+      category: "",
       subject: "",
       htmlBody: "",
       recipientsText: "",
@@ -98,27 +214,131 @@ export default function Home() {
     },
   });
 
-  const parseEmails = (text: string): string[] => {
-    const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-    const matches = text.match(emailRegex);
-    return matches ? Array.from(new Set(matches)) : [];
+  // Recipients on the suppression list or opted out of the chosen category,
+  // which the send will skip
+  const recipientEmails = recipients.map(({ email }) => email);
+  const category = form.watch("category") || "transactional";
+  const { data: suppressedRecipients = [] } = useQuery<SuppressedRecipient[]>({
+    queryKey: ["/api/suppressions/check", category, recipientEmails],
+    queryFn: async () => {
+      const found: SuppressedRecipient[] = [];
+      for (let i = 0; i < recipientEmails.length; i += SUPPRESSION_BATCH_LIMIT) {
+        const response = await apiRequest("POST", "/api/suppressions/check", {
+          emails: recipientEmails.slice(i, i + SUPPRESSION_BATCH_LIMIT),
+          category,
+        });
+        found.push(...(await response.json()));
+      }
+      return found;
+    },
+    enabled: recipientEmails.length > 0,
+    placeholderData: keepPreviousData,
+    // The list changes independently of the composer
+    staleTime: 0,
+  });
+  const suppressedReasons = new Map(
+    recipients.length > 0
+      ? suppressedRecipients.map((entry) => [entry.email, entry.reason])
+      : [],
+  );
+
+  const selectedProfile = smtpProfiles.find(
+    (profile) => profile.id === form.watch("smtpProfileId"),
+  );
+  // Only identities allowed for the chosen profile can be picked
+  const allowedIdentities = selectedProfile
+    ? senderIdentities.filter((identity) =>
+        identity.smtpProfileIds.includes(selectedProfile.id),
+      )
+    : [];
+  const selectedIdentity = allowedIdentities.find(
+    (identity) => identity.id === form.watch("senderIdentityId"),
+  );
+  const fallbackProfileIds = form.watch("fallbackProfileIds");
+  // Fallbacks must also be allowed for the identity, so it is picked first
+  const availableFallbacks = selectedIdentity
+    ? smtpProfiles.filter(
+        (profile) =>
+          profile.id !== selectedProfile?.id &&
+          selectedIdentity.smtpProfileIds.includes(profile.id) &&
+          !fallbackProfileIds.includes(profile.id),
+      )
+    : [];
+
+  // Drops fallbacks that no longer fit the chosen profile and identity
+  const pruneFallbacks = () => {
+    const primaryId = form.getValues("smtpProfileId");
+    const identity = senderIdentities.find(
+      (entry) => entry.id === form.getValues("senderIdentityId"),
+    );
+    form.setValue(
+      "fallbackProfileIds",
+      form
+        .getValues("fallbackProfileIds")
+        .filter((id) => id !== primaryId && identity?.smtpProfileIds.includes(id)),
+    );
   };
 
   const handleRecipientsChange = (value: string) => {
     form.setValue("recipientsText", value);
-    const parsed = parseEmails(value);
-    setRecipients(parsed);
+    setRecipients(parseRecipients(value));
+  };
+
+  // Multi-column pastes go through the import step so the user can check
+  // the header and column mapping before the rows become recipients.
+  const handleRecipientsPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = e.clipboardData.getData("text");
+    if (pasted.includes("\t") && pasted.trim().includes("\n")) {
+      e.preventDefault();
+      openImport(pasted);
+    }
+  };
+
+  const openImport = (text = "") => {
+    setImportText(text);
+    setIsImportOpen(true);
+  };
+
+  const handleImport = (imported: EmailRecipient[]) => {
+    form.setValue("recipientsText", formatRecipients(imported), {
+      shouldValidate: true,
+    });
+    setRecipients(imported);
   };
 
   const removeRecipient = (emailToRemove: string) => {
     const currentText = form.getValues("recipientsText");
-    const newText = currentText
-      .split(/[\s,;\n]+/)
-      .filter((item) => item.trim() !== "" && item !== emailToRemove)
-      .join("\n");
+    // Pasted spreadsheet rows are dropped whole so their columns stay aligned.
+    const newText = currentText.includes("\t")
+      ? removeRecipientRows(currentText, emailToRemove)
+      : currentText
+          .split(/[\s,;\n]+/)
+          .filter((item) => item.trim() !== "" && item !== emailToRemove)
+          .join("\n");
     form.setValue("recipientsText", newText);
-    setRecipients((prev) => prev.filter((e) => e !== emailToRemove));
+    setRecipients((prev) => prev.filter((r) => r.email !== emailToRemove));
+  };
+
+  const mergeFieldNames = Array.from(
+    new Set(
+      recipients.flatMap((recipient) =>
+        Object.keys(getMergeVariables(recipient)),
+      ),
+    ),
+  );
+
+  // The real unsubscribe and preference links are only created when each
+  // message is sent
+  const previewVariables = {
+    ...(recipients.length > 0 ? getMergeVariables(recipients[0]) : {}),
+    ...Object.fromEntries(RECIPIENT_LINK_PLACEHOLDERS.map((name) => [name, "#"])),
   };
+  const previewLogoSrc = useFrameImage(
+    selectedIdentity && isPreviewOpen ? senderLogoUrl(selectedIdentity) : null,
+  );
+  const hasUnsubscribeLink = extractPlaceholders(
+    form.watch("htmlBody") + (selectedIdentity?.signatureHtml ?? ""),
+  ).includes(UNSUBSCRIBE_URL_PLACEHOLDER);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -131,91 +351,222 @@ export default function Home() {
     setAttachments((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const handleSSEStream = async (formData: FormData) => {
-    const response = await fetch("/api/send-emails", {
-      method: "POST",
-      body: formData,
+  const applyStatus = (status: EmailStatus) => {
+    setEmailStatuses((prev) => {
+      const index = prev.findIndex((s) => s.email === status.email);
+      if (index >= 0) {
+        const updated = [...prev];
+        updated[index] = status;
+        return updated;
+      }
+      return [...prev, status];
     });
+  };
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || "Failed to send emails");
-    }
-
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-
-    if (!reader) {
-      throw new Error("Response body is not readable");
-    }
+  const followCampaign = (campaignId: string) =>
+    new Promise<void>((resolve, reject) => {
+      eventSourceRef.current?.close();
+      const source = new EventSource(`/api/campaigns/${campaignId}/events`);
+      eventSourceRef.current = source;
 
-    let buffer = "";
-    let completed = false;
-    let serverError: Error | null = null;
+      source.onmessage = (message) => {
+        let data: ProgressEvent;
+        try {
+          data = JSON.parse(message.data);
+        } catch (parseError) {
+          console.error("Error parsing SSE data:", parseError);
+          return;
+        }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            let data;
-            try {
-              data = JSON.parse(line.substring(6));
-            } catch (parseError) {
-              console.error("Error parsing SSE data:", parseError);
-              continue;
-            }
-
-            if (data.type === "complete") {
-              toast({
-                title: "Emails Sent",
-                description: `Successfully sent ${data.data.totalSent} emails. ${data.data.totalFailed} failed.`,
-              });
-              completed = true;
-            } else if (data.type === "error") {
-              serverError = new Error(
-                data.message || "Server error during email sending",
-              );
-              break;
-            } else {
-              setEmailStatuses((prev) => {
-                const index = prev.findIndex((s) => s.email === data.email);
-                if (index >= 0) {
-                  const updated = [...prev];
-                  updated[index] = data;
-                  return updated;
-                }
-                return prev;
-              });
-            }
+        if (!("type" in data)) {
+          applyStatus(data);
+        } else if (data.type === "progress") {
+          setProgress(data);
+        } else {
+          source.close();
+          if (data.type === "complete") {
+            toast({
+              title: "Emails Sent",
+              description: `Successfully sent ${data.data.totalSent} emails. ${data.data.totalFailed} failed.${
+                data.data.totalSuppressed > 0
+                  ? ` ${data.data.totalSuppressed} skipped (suppressed).`
+                  : ""
+              }`,
+            });
+            resolve();
+          } else {
+            reject(
+              new Error(data.message || "Server error during email sending"),
+            );
           }
         }
+      };
 
-        if (serverError) break;
-      }
+      // EventSource reconnects by itself and sends Last-Event-ID, so the
+      // server replays whatever was missed. It only gives up for good when
+      // the server refuses the stream.
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) {
+          reject(
+            new Error(
+              "Lost connection to the server. Emails are still being sent in the background.",
+            ),
+          );
+        }
+      };
+    });
 
-      buffer += decoder.decode(undefined, { stream: false });
+  const trackCampaign = async (campaignId: string) => {
+    localStorage.setItem(ACTIVE_CAMPAIGN_KEY, campaignId);
+    setCampaignId(campaignId);
+    setProgress(null);
+    setIsSending(true);
+    try {
+      await followCampaign(campaignId);
+      localStorage.removeItem(ACTIVE_CAMPAIGN_KEY);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to send emails",
+        variant: "destructive",
+      });
     } finally {
       setIsSending(false);
     }
+  };
+
+  // Fetches a campaign and shows its recipients' current statuses
+  const loadCampaign = async (campaignId: string) => {
+    const res = await apiRequest("GET", `/api/campaigns/${campaignId}`);
+    const campaign = (await res.json()) as CampaignDetail;
+    setEmailStatuses(
+      campaign.statuses.map(({ email, status, error }) => ({
+        email,
+        status,
+        ...(error ? { error } : {}),
+      })),
+    );
+    return campaign;
+  };
+
+  // Reattach to a campaign still being delivered, e.g. after a page reload.
+  useEffect(() => {
+    const campaignId = localStorage.getItem(ACTIVE_CAMPAIGN_KEY);
+    if (campaignId) {
+      loadCampaign(campaignId)
+        .then((campaign) => {
+          setCampaignId(campaignId);
+          setIsDryRun(campaign.dryRun);
+          if (campaign.status === "queued" || campaign.status === "sending") {
+            void trackCampaign(campaignId);
+          } else {
+            localStorage.removeItem(ACTIVE_CAMPAIGN_KEY);
+          }
+        })
+        .catch(() => localStorage.removeItem(ACTIVE_CAMPAIGN_KEY));
+    }
+
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Follows an approved campaign once it has been released to the queue
+  const handleDispatched = async (campaignId: string) => {
+    setIsDryRun(false);
+    try {
+      await loadCampaign(campaignId);
+    } catch (error) {
+      console.error("Error loading campaign:", error);
+    }
+    await trackCampaign(campaignId);
+  };
+
+  // Loads a draft or approved campaign back into the composer, including
+  // its attachments, so a revised version can be submitted in its place.
+  const handleRevise = async (campaign: Campaign) => {
+    try {
+      const res = await apiRequest("GET", `/api/campaigns/${campaign.id}`);
+      const detail = (await res.json()) as CampaignDetail;
+      const files = await Promise.all(
+        detail.attachments.map(async (attachment, index) => {
+          const file = await apiRequest(
+            "GET",
+            `/api/campaigns/${campaign.id}/attachments/${index}`,
+          );
+          return new File([await file.blob()], attachment.filename, {
+            type: attachment.contentType,
+          });
+        }),
+      );
 
-    if (serverError) {
-      throw serverError;
+      form.setValue("smtpProfileId", detail.smtpProfileId, { shouldValidate: true });
+      form.setValue("senderIdentityId", detail.senderIdentityId ?? "");
+      form.setValue("fallbackProfileIds", detail.fallbackProfileIds);
+      form.setValue("category", detail.category, { shouldValidate: true });
+      form.setValue("subject", detail.subject, { shouldValidate: true });
+      form.setValue("htmlBody", detail.htmlBody, { shouldValidate: true });
+      form.setValue("cc", detail.cc.join("\n"));
+      form.setValue("bcc", detail.bcc.join("\n"));
+      setShowCCBCC(detail.cc.length > 0 || detail.bcc.length > 0);
+      handleImport(
+        detail.statuses.map((record) => ({
+          email: record.email,
+          ...(record.name ? { name: record.name } : {}),
+          fields: record.fields,
+        })),
+      );
+      setAttachments(files);
+      setIsScheduled(detail.scheduledAt !== null);
+      if (detail.scheduledAt) {
+        const timeZone = detail.timeZone ?? DEFAULT_TIME_ZONE;
+        setSchedule({
+          localDateTime: toZonedInputValue(new Date(detail.scheduledAt), timeZone),
+          timeZone,
+        });
+      }
+      setEmailStatuses([]);
+      setRevising(campaign);
+      setDraftId(crypto.randomUUID());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to load campaign",
+        variant: "destructive",
+      });
     }
+  };
 
-    if (!completed) {
-      throw new Error("Stream ended unexpectedly without completion message");
+  const retryFailed = async () => {
+    if (!campaignId) return;
+    setIsRetrying(true);
+    try {
+      await apiRequest("POST", `/api/campaigns/${campaignId}/retry-failed`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to retry emails",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsRetrying(false);
     }
+
+    setEmailStatuses((current) =>
+      current.map((status) =>
+        status.status === "failed"
+          ? { email: status.email, status: "pending" }
+          : status,
+      ),
+    );
+    await trackCampaign(campaignId);
   };
 
-  const onSubmit = async (data: EmailFormData) => {
+  // A dry run renders and captures every message without sending, so
+  // scheduling, approval and revisions do not apply to it
+  const onSubmit = async (data: EmailFormData, { dryRun = false } = {}) => {
     if (recipients.length === 0) {
       toast({
         title: "No Recipients",
@@ -225,21 +576,107 @@ export default function Home() {
       return;
     }
 
-    const formData = new FormData();
+    let scheduledAt: Date | undefined;
+    if (isScheduled && !dryRun) {
+      scheduledAt = schedule.localDateTime
+        ? zonedTimeToUtc(schedule.localDateTime, schedule.timeZone)
+        : undefined;
+      if (!scheduledAt || scheduledAt.getTime() <= Date.now()) {
+        toast({
+          title: "Invalid Schedule",
+          description: "Please choose a send time in the future.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
 
-    const smtpConfig = {
-      username: data.smtpUsername,
-      password: data.smtpPassword,
-      host: "smtp.zeptomail.in",
-      port: 587,
-      fromEmail: "crmsupport@legacylifespaces.com",
-    };
+    const formData = buildFormData(data);
+    if (scheduledAt) {
+      formData.append("scheduledAt", scheduledAt.toISOString());
+      formData.append("timeZone", schedule.timeZone);
+    }
+    if (revising && !dryRun) {
+      formData.append("revisionOf", revising.id);
+    }
+    if (dryRun) {
+      formData.append("dryRun", "true");
+    }
 
-    formData.append("smtpConfig", JSON.stringify(smtpConfig));
+    const initialStatuses: EmailStatus[] = recipients.map(({ email }) => ({
+      email,
+      status: "pending" as const,
+    }));
+    setEmailStatuses(
+      (scheduledAt || needsApproval) && !dryRun ? [] : initialStatuses,
+    );
+    setIsDryRun(dryRun);
+    setIsSending(true);
+
+    let campaignId: string;
+    try {
+      const response = await fetch("/api/send-emails", {
+        method: "POST",
+        body: formData,
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message || "Failed to send emails");
+      }
+      campaignId = body.campaignId;
+      if (revising && !dryRun) {
+        setRevising(null);
+        queryClient.invalidateQueries({ queryKey: [APPROVAL_CAMPAIGNS_KEY] });
+      }
+      if (body.status === "pending_approval") {
+        queryClient.invalidateQueries({ queryKey: [APPROVAL_CAMPAIGNS_KEY] });
+        toast({
+          title: "Submitted for Approval",
+          description: "Another approver needs to sign this campaign off before it can be sent.",
+        });
+        setIsSending(false);
+        return;
+      }
+      if (scheduledAt) {
+        queryClient.invalidateQueries({ queryKey: [SCHEDULED_CAMPAIGNS_KEY] });
+        toast({
+          title: "Campaign Scheduled",
+          description: `Will be sent on ${formatInTimeZone(scheduledAt, schedule.timeZone)}.`,
+        });
+        setIsSending(false);
+        return;
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to send emails",
+        variant: "destructive",
+      });
+      setIsSending(false);
+      return;
+    }
+
+    await trackCampaign(campaignId);
+  };
+
+  // The content fields shared by real sends, dry runs and test sends; the
+  // server fingerprints them to match a test send to its campaign from the
+  // same draft
+  const buildFormData = (data: EmailFormData) => {
+    const formData = new FormData();
+
+    formData.append("draftId", draftId);
+    formData.append("smtpProfileId", data.smtpProfileId);
+    formData.append("senderIdentityId", data.senderIdentityId);
+    if (data.fallbackProfileIds.length > 0) {
+      formData.append("fallbackProfileIds", JSON.stringify(data.fallbackProfileIds));
+    }
     formData.append("recipients", JSON.stringify(recipients));
+    formData.append("category", data.category);
     formData.append("subject", data.subject);
     formData.append("htmlBody", data.htmlBody);
-    formData.append("textBody", data.htmlBody.replace(/<[^>]*>/g, ""));
+    formData.append("textBody", htmlToText(data.htmlBody));
 
     const ccEmails = parseEmails(data.cc || "");
     const bccEmails = parseEmails(data.bcc || "");
@@ -250,23 +687,44 @@ export default function Home() {
       formData.append("attachments", file);
     });
 
-    const initialStatuses: EmailStatus[] = recipients.map((email) => ({
-      email,
-      status: "pending" as const,
-    }));
-    setEmailStatuses(initialStatuses);
-    setIsSending(true);
+    return formData;
+  };
 
+  const handleTestSend = async (sampleIndex: number, seedAddresses: string[]) => {
+    const formData = buildFormData(form.getValues());
+    formData.append("testSend", JSON.stringify({ sampleIndex, seedAddresses }));
+    setIsTestSending(true);
     try {
-      await handleSSEStream(formData);
+      const response = await fetch("/api/send-emails", {
+        method: "POST",
+        body: formData,
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message || "Failed to send test");
+      }
+      const record = body as TestSend;
+      const delivered = record.seedAddresses.length - record.failures.length;
+      toast({
+        title: record.failures.length > 0 ? "Test Partly Sent" : "Test Sent",
+        description:
+          record.failures.length > 0
+            ? `${delivered} of ${record.seedAddresses.length} delivered. ${record.failures
+                .map((failure) => `${failure.email}: ${failure.error}`)
+                .join("; ")}`
+            : `Sent as ${record.sampleEmail} to ${record.seedAddresses.join(", ")} via ${record.sentVia}.`,
+        variant: delivered === 0 ? "destructive" : undefined,
+      });
+      if (delivered > 0) setIsTestSendOpen(false);
     } catch (error) {
       toast({
         title: "Error",
         description:
-          error instanceof Error ? error.message : "Failed to send emails",
+          error instanceof Error ? error.message : "Failed to send test",
         variant: "destructive",
       });
-      setIsSending(false);
+    } finally {
+      setIsTestSending(false);
     }
   };
 
@@ -294,11 +752,22 @@ export default function Home() {
     setIsPreviewOpen(true);
   };
 
+  // Composers may not dispatch campaigns above the approval threshold
+  // Campaigns above the threshold go to a second person for approval
+  const needsApproval =
+    policy !== undefined && recipients.length > policy.approvalThreshold;
+
+  const sentCount = emailStatuses.filter((s) => s.status === "sent").length;
+  const failedCount = emailStatuses.filter((s) => s.status === "failed").length;
+  const suppressedCount = emailStatuses.filter(
+    (s) => s.status === "suppressed",
+  ).length;
+  const suppressedSummary =
+    suppressedCount > 0 ? `, ${suppressedCount} suppressed` : "";
+
   const calculateProgress = (): number => {
     if (emailStatuses.length === 0) return 0;
-    const sent = emailStatuses.filter((s) => s.status === "sent").length;
-    const failed = emailStatuses.filter((s) => s.status === "failed").length;
-    const completed = sent + failed;
+    const completed = sentCount + failedCount + suppressedCount;
     return Math.round((completed / emailStatuses.length) * 100);
   };
 
@@ -306,18 +775,86 @@ export default function Home() {
     <div className="min-h-screen bg-background">
       <header className="border-b">
         <div className="max-w-7xl mx-auto px-6 py-4">
-          <div className="flex items-center gap-3">
-            <Mail className="h-6 w-6 text-primary" />
-            <h1 className="text-2xl font-semibold">
-              ZeptoMail Bulk Email Sender
-            </h1>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <Mail className="h-6 w-6 text-primary" />
+              <h1 className="text-2xl font-semibold">
+                ZeptoMail Bulk Email Sender
+              </h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {import.meta.env.DEV && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/dev/mailbox" data-testid="link-dev-mailbox">
+                    <Inbox className="h-4 w-4 mr-2" />
+                    Dev Mailbox
+                  </Link>
+                </Button>
+              )}
+              {(user?.role === "approver" || user?.role === "admin") && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/suppressions" data-testid="link-suppressions">
+                    <Ban className="h-4 w-4 mr-2" />
+                    Suppressions
+                  </Link>
+                </Button>
+              )}
+              {user?.role === "admin" && (
+                <>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link
+                      href="/admin/smtp-profiles"
+                      data-testid="link-smtp-profiles"
+                    >
+                      <Server className="h-4 w-4 mr-2" />
+                      SMTP Profiles
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link
+                      href="/admin/sender-identities"
+                      data-testid="link-sender-identities"
+                    >
+                      <Contact className="h-4 w-4 mr-2" />
+                      Senders
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href="/admin/users" data-testid="link-users">
+                      <Users className="h-4 w-4 mr-2" />
+                      Users
+                    </Link>
+                  </Button>
+                </>
+              )}
+              <span
+                className="text-sm text-muted-foreground"
+                data-testid="text-current-user"
+              >
+                {user?.username}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-6 py-8">
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form
+            onSubmit={form.handleSubmit((data) => onSubmit(data))}
+            className="space-y-6"
+          >
             <Collapsible
               open={isSMTPConfigOpen}
               onOpenChange={setIsSMTPConfigOpen}
@@ -337,7 +874,9 @@ export default function Home() {
                             SMTP Configuration
                           </CardTitle>
                           <CardDescription>
-                            Configure your ZeptoMail SMTP credentials
+                            {selectedProfile
+                              ? `Sending through ${selectedProfile.name}`
+                              : "Choose the account to send through"}
                           </CardDescription>
                         </div>
                       </div>
@@ -351,65 +890,193 @@ export default function Home() {
                 </CollapsibleTrigger>
                 <CollapsibleContent>
                   <CardContent className="space-y-4 pt-0">
-                    <div className="grid gap-4 md:grid-cols-2">
-                      <FormField
-                        control={form.control}
-                        name="smtpUsername"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>
-                              SMTP Username{" "}
-                              <span className="text-destructive">*</span>
-                            </FormLabel>
+                    <FormField
+                      control={form.control}
+                      name="smtpProfileId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            SMTP Profile{" "}
+                            <span className="text-destructive">*</span>
+                          </FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              // Keep the identity only if the new profile allows it
+                              const identity = senderIdentities.find(
+                                (entry) => entry.id === form.getValues("senderIdentityId"),
+                              );
+                              if (!identity?.smtpProfileIds.includes(value)) {
+                                form.setValue("senderIdentityId", "");
+                              }
+                              pruneFallbacks();
+                            }}
+                            disabled={isSending}
+                          >
                             <FormControl>
-                              <Input
-                                {...field}
-                                data-testid="input-smtp-username"
-                                placeholder="your-smtp-username"
-                                disabled={isSending}
-                              />
+                              <SelectTrigger data-testid="select-smtp-profile">
+                                <SelectValue
+                                  placeholder={
+                                    smtpProfiles.length === 0
+                                      ? "No SMTP profiles yet"
+                                      : "Choose a profile"
+                                  }
+                                />
+                              </SelectTrigger>
                             </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                            <SelectContent>
+                              {smtpProfiles.map((profile) => (
+                                <SelectItem key={profile.id} value={profile.id}>
+                                  {profile.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {smtpProfiles.length === 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {user?.role === "admin"
+                          ? "Add one under SMTP Profiles; credentials are stored encrypted on the server."
+                          : "Ask an admin to add one; credentials are stored on the server."}
+                      </p>
+                    )}
+                    {selectedProfile && (
                       <FormField
                         control={form.control}
-                        name="smtpPassword"
+                        name="senderIdentityId"
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>
-                              SMTP Password{" "}
+                              Send As{" "}
                               <span className="text-destructive">*</span>
                             </FormLabel>
-                            <FormControl>
-                              <Input
-                                {...field}
-                                data-testid="input-smtp-password"
-                                type="password"
-                                placeholder="your-smtp-password"
-                                disabled={isSending}
-                              />
-                            </FormControl>
+                            <Select
+                              value={field.value}
+                              onValueChange={(value) => {
+                                field.onChange(value);
+                                pruneFallbacks();
+                              }}
+                              disabled={isSending}
+                            >
+                              <FormControl>
+                                <SelectTrigger data-testid="select-sender-identity">
+                                  <SelectValue
+                                    placeholder={
+                                      allowedIdentities.length === 0
+                                        ? "No identities allowed for this profile"
+                                        : "Choose a sender identity"
+                                    }
+                                  />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {allowedIdentities.map((identity) => (
+                                  <SelectItem key={identity.id} value={identity.id}>
+                                    {identity.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="from-email">From Email</Label>
-                      <Input
-                        id="from-email"
-                        data-testid="input-from-email"
-                        type="email"
-                        value="crmsupport@legacylifespaces.com"
-                        disabled
-                        className="cursor-not-allowed bg-muted"
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        This email address is fixed and cannot be changed
-                      </p>
-                    </div>
+                    )}
+                    {selectedIdentity && (
+                      <div className="space-y-2">
+                        <Label>Fallback Profiles</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Tried in this order if the primary profile cannot be reached.
+                        </p>
+                        {fallbackProfileIds.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {fallbackProfileIds.map((id, index) => (
+                              <Badge
+                                key={id}
+                                variant="secondary"
+                                className="gap-1"
+                                data-testid={`badge-fallback-${id}`}
+                              >
+                                {index + 1}.{" "}
+                                {smtpProfiles.find((profile) => profile.id === id)?.name ?? id}
+                                <button
+                                  type="button"
+                                  className="ml-1 rounded-sm hover:text-destructive"
+                                  onClick={() =>
+                                    form.setValue(
+                                      "fallbackProfileIds",
+                                      fallbackProfileIds.filter((entry) => entry !== id),
+                                    )
+                                  }
+                                  disabled={isSending}
+                                  aria-label="Remove fallback"
+                                  data-testid={`button-remove-fallback-${id}`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        <Select
+                          value=""
+                          onValueChange={(value) =>
+                            form.setValue("fallbackProfileIds", [...fallbackProfileIds, value])
+                          }
+                          disabled={isSending || availableFallbacks.length === 0}
+                        >
+                          <SelectTrigger data-testid="select-add-fallback">
+                            <SelectValue
+                              placeholder={
+                                availableFallbacks.length === 0
+                                  ? "No other profiles allowed for this identity"
+                                  : "Add a fallback profile"
+                              }
+                            />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableFallbacks.map((profile) => (
+                              <SelectItem key={profile.id} value={profile.id}>
+                                {profile.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    {selectedProfile && (
+                      <div className="grid gap-4 md:grid-cols-2 text-sm">
+                        <div className="space-y-1">
+                          <Label>From</Label>
+                          <div data-testid="text-from-email">
+                            {selectedIdentity
+                              ? formatSender(selectedIdentity.fromName, selectedIdentity.fromEmail)
+                              : "—"}
+                          </div>
+                          {selectedIdentity?.replyTo && (
+                            <div
+                              className="text-muted-foreground"
+                              data-testid="text-reply-to"
+                            >
+                              Replies go to {selectedIdentity.replyTo}
+                            </div>
+                          )}
+                        </div>
+                        <div className="space-y-1">
+                          <Label>Sending Limits</Label>
+                          <div
+                            className="text-muted-foreground"
+                            data-testid="text-rate-limits"
+                          >
+                            {describeRateLimit(selectedProfile.rateLimit)}
+                          </div>
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </CollapsibleContent>
               </Card>
@@ -418,11 +1085,65 @@ export default function Home() {
             <div className="grid gap-6 lg:grid-cols-[1fr_400px]">
               <div className="space-y-6">
                 <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Compose Email</CardTitle>
-                    <CardDescription>Create your email content</CardDescription>
+                  <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+                    <div className="space-y-1.5">
+                      <CardTitle className="text-lg">Compose Email</CardTitle>
+                      <CardDescription>
+                        Create your email content
+                      </CardDescription>
+                    </div>
+                    <TemplatePicker
+                      getContent={() => ({
+                        subject: form.getValues("subject"),
+                        htmlBody: form.getValues("htmlBody"),
+                      })}
+                      onLoad={(template) => {
+                        form.setValue("subject", template.subject, {
+                          shouldValidate: true,
+                        });
+                        form.setValue("htmlBody", template.htmlBody, {
+                          shouldValidate: true,
+                        });
+                      }}
+                      disabled={isSending}
+                    />
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="category"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Category <span className="text-destructive">*</span>
+                          </FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                            disabled={isSending}
+                          >
+                            <FormControl>
+                              <SelectTrigger data-testid="select-category">
+                                <SelectValue placeholder="Choose a category" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {campaignCategoryValues.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                  {CAMPAIGN_CATEGORY_LABELS[value]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            Recipients who opted out of a category are skipped;
+                            transactional notices reach everyone not suppressed.
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="subject"
@@ -467,6 +1188,38 @@ export default function Home() {
                               />
                             </div>
                           </FormControl>
+                          <div
+                            className="flex flex-wrap items-center gap-1"
+                            data-testid="merge-fields"
+                          >
+                            <span className="text-xs text-muted-foreground mr-1">
+                              Placeholders:
+                            </span>
+                            {[...mergeFieldNames, ...RECIPIENT_LINK_PLACEHOLDERS].map(
+                              (name) => (
+                                <Badge
+                                  key={name}
+                                  variant="outline"
+                                  className="font-mono text-xs"
+                                >
+                                  {`{{${name}}}`}
+                                </Badge>
+                              ),
+                            )}
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="ml-auto"
+                              onClick={() =>
+                                field.onChange(`${field.value}${UNSUBSCRIBE_FOOTER_HTML}`)
+                              }
+                              disabled={isSending || hasUnsubscribeLink}
+                              data-testid="button-add-unsubscribe-footer"
+                            >
+                              Add Unsubscribe Footer
+                            </Button>
+                          </div>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -601,10 +1354,23 @@ export default function Home() {
                       name="recipientsText"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>
-                            Email Addresses{" "}
-                            <span className="text-destructive">*</span>
-                          </FormLabel>
+                          <div className="flex items-center justify-between">
+                            <FormLabel>
+                              Email Addresses{" "}
+                              <span className="text-destructive">*</span>
+                            </FormLabel>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openImport()}
+                              disabled={isSending}
+                              data-testid="button-import-recipients"
+                            >
+                              <FileSpreadsheet className="h-4 w-4 mr-2" />
+                              Import Table
+                            </Button>
+                          </div>
                           <FormControl>
                             <Textarea
                               {...field}
@@ -613,6 +1379,7 @@ export default function Home() {
                               onChange={(e) =>
                                 handleRecipientsChange(e.target.value)
                               }
+                              onPaste={handleRecipientsPaste}
                               rows={8}
                               className="font-mono text-sm"
                               disabled={isSending}
@@ -620,7 +1387,8 @@ export default function Home() {
                           </FormControl>
                           <FormDescription className="text-xs">
                             Supports any format: one per line, comma-separated,
-                            or space-separated
+                            or space-separated. Use Import Table for .csv or
+                            .xlsx files.
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -641,7 +1409,9 @@ export default function Home() {
                                   Select email addresses in Excel, copy
                                   (Ctrl+C), and paste here. The system will
                                   automatically detect and validate all email
-                                  addresses.
+                                  addresses. Copy whole rows, with their
+                                  header row, to use the other columns as
+                                  placeholders such as {"{{name}}"}.
                                 </p>
                               </div>
                             </div>
@@ -662,14 +1432,37 @@ export default function Home() {
                             {recipients.length}
                           </Badge>
                         </div>
+                        {suppressedReasons.size > 0 && (
+                          <div
+                            className="flex items-start gap-2 rounded-md border p-3 text-sm text-muted-foreground"
+                            data-testid="text-suppressed-count"
+                          >
+                            <Ban className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            {suppressedReasons.size} of {recipients.length}{" "}
+                            recipients are on the suppression list
+                            {category !== "transactional" && " or opted out of this category"}{" "}
+                            and will be skipped.
+                          </div>
+                        )}
                         <div className="max-h-48 overflow-y-auto space-y-1 border rounded-md p-2 bg-card">
-                          {recipients.map((email) => (
+                          {recipients.map(({ email, name }) => (
                             <div
                               key={email}
                               className="flex items-center justify-between gap-2 px-2.5 py-1.5 rounded-md bg-muted/50"
                               data-testid={`recipient-chip-${email}`}
                             >
-                              <span className="text-sm truncate">{email}</span>
+                              <span className="text-sm truncate">
+                                {name ? `${name} <${email}>` : email}
+                              </span>
+                              {suppressedReasons.has(email.toLowerCase()) && (
+                                <Badge
+                                  variant="outline"
+                                  className="ml-auto flex-shrink-0"
+                                  title={suppressedReasons.get(email.toLowerCase())}
+                                >
+                                  Suppressed
+                                </Badge>
+                              )}
                               <Button
                                 type="button"
                                 variant="ghost"
@@ -689,6 +1482,62 @@ export default function Home() {
 
                     <Separator />
 
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="schedule-toggle"
+                          checked={isScheduled}
+                          onCheckedChange={setIsScheduled}
+                          disabled={isSending}
+                          data-testid="switch-schedule"
+                        />
+                        <Label htmlFor="schedule-toggle">
+                          Schedule for later
+                        </Label>
+                      </div>
+                      {isScheduled && (
+                        <SchedulePicker
+                          localDateTime={schedule.localDateTime}
+                          timeZone={schedule.timeZone}
+                          onChange={setSchedule}
+                          disabled={isSending}
+                        />
+                      )}
+                    </div>
+
+                    {revising && (
+                      <div
+                        className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm"
+                        data-testid="text-revising"
+                      >
+                        <span className="min-w-0 truncate">
+                          Revising "{revising.subject}"; submitting replaces it
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 flex-shrink-0"
+                          onClick={() => setRevising(null)}
+                          aria-label="Stop revising"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+
+                    {needsApproval && (
+                      <div
+                        className="flex items-start gap-2 rounded-md border p-3 text-sm text-muted-foreground"
+                        data-testid="text-needs-approval"
+                      >
+                        <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        Campaigns to more than {policy?.approvalThreshold}{" "}
+                        recipients are sent once another approver has signed
+                        them off.
+                      </div>
+                    )}
+
                     <div className="flex flex-wrap gap-2">
                       <Button
                         type="button"
@@ -701,6 +1550,39 @@ export default function Home() {
                         <Eye className="h-4 w-4 mr-2" />
                         Preview
                       </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="flex-1"
+                        onClick={form.handleSubmit(() => setIsTestSendOpen(true))}
+                        disabled={
+                          isSending ||
+                          recipients.length === 0 ||
+                          !policy?.seedAddresses.length
+                        }
+                        title={
+                          policy && policy.seedAddresses.length === 0
+                            ? "No seed addresses are configured (TEST_SEED_ADDRESSES)"
+                            : undefined
+                        }
+                        data-testid="button-send-test"
+                      >
+                        <MailCheck className="h-4 w-4 mr-2" />
+                        Send Test
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="flex-1"
+                        onClick={form.handleSubmit((data) =>
+                          onSubmit(data, { dryRun: true }),
+                        )}
+                        disabled={isSending || recipients.length === 0}
+                        data-testid="button-dry-run"
+                      >
+                        <FlaskConical className="h-4 w-4 mr-2" />
+                        Dry Run
+                      </Button>
                       <Button
                         type="submit"
                         className="flex-1"
@@ -712,6 +1594,16 @@ export default function Home() {
                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                             Sending...
                           </>
+                        ) : needsApproval ? (
+                          <>
+                            <ShieldAlert className="h-4 w-4 mr-2" />
+                            Submit for Approval
+                          </>
+                        ) : isScheduled ? (
+                          <>
+                            <CalendarClock className="h-4 w-4 mr-2" />
+                            Schedule Send
+                          </>
                         ) : (
                           <>
                             <Send className="h-4 w-4 mr-2" />
@@ -723,6 +1615,14 @@ export default function Home() {
                   </CardContent>
                 </Card>
 
+                <ApprovalCampaigns
+                  onRevise={handleRevise}
+                  onDispatched={handleDispatched}
+                  disabled={isSending}
+                />
+
+                <ScheduledCampaigns />
+
                 {isSending && (
                   <Card>
                     <CardHeader>
@@ -737,8 +1637,25 @@ export default function Home() {
                         data-testid="progress-send"
                       />
                       <p className="text-sm text-muted-foreground">
-                        Sending emails to {recipients.length} recipients...
+                        {isDryRun
+                          ? `Rendering messages for ${emailStatuses.length} recipients (dry run)...`
+                          : `Sending emails to ${emailStatuses.length} recipients...`}
                       </p>
+                      {progress?.estimatedCompletionAt && (
+                        <p
+                          className="text-xs text-muted-foreground"
+                          data-testid="text-eta"
+                        >
+                          {progress.processed} of {progress.total} processed ·
+                          estimated completion{" "}
+                          {new Date(
+                            progress.estimatedCompletionAt,
+                          ).toLocaleTimeString([], {
+                            hour: "numeric",
+                            minute: "2-digit",
+                          })}
+                        </p>
+                      )}
                       {emailStatuses.length > 0 && (
                         <div className="max-h-48 overflow-y-auto space-y-2">
                           {emailStatuses.map((status, index) => (
@@ -748,7 +1665,16 @@ export default function Home() {
                               data-testid={`status-${status.email}`}
                             >
                               <span className="truncate">{status.email}</span>
-                              {status.status === "pending" ? (
+                              {status.status === "retrying" ? (
+                                <Badge
+                                  variant="outline"
+                                  className="flex-shrink-0"
+                                  title={status.error}
+                                >
+                                  <RotateCw className="h-3 w-3 mr-1" />
+                                  Retrying (attempt {status.attempts ?? 1})
+                                </Badge>
+                              ) : status.status === "pending" ? (
                                 <Badge
                                   variant="secondary"
                                   className="flex-shrink-0"
@@ -772,6 +1698,15 @@ export default function Home() {
                                   <CheckCircle2 className="h-3 w-3 mr-1" />
                                   Sent
                                 </Badge>
+                              ) : status.status === "suppressed" ? (
+                                <Badge
+                                  variant="outline"
+                                  className="flex-shrink-0"
+                                  title={status.error}
+                                >
+                                  <Ban className="h-3 w-3 mr-1" />
+                                  Suppressed
+                                </Badge>
                               ) : (
                                 <Badge
                                   variant="destructive"
@@ -791,20 +1726,45 @@ export default function Home() {
 
                 {!isSending && emailStatuses.length > 0 && (
                   <Card>
-                    <CardHeader>
-                      <CardTitle className="text-lg">Send Results</CardTitle>
-                      <CardDescription>
-                        {
-                          emailStatuses.filter((s) => s.status === "sent")
-                            .length
-                        }{" "}
-                        sent,{" "}
-                        {
-                          emailStatuses.filter((s) => s.status === "failed")
-                            .length
-                        }{" "}
-                        failed
-                      </CardDescription>
+                    <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+                      <div className="space-y-1.5">
+                        <CardTitle className="text-lg">
+                          {isDryRun ? "Dry Run Results" : "Send Results"}
+                        </CardTitle>
+                        <CardDescription>
+                          {isDryRun
+                            ? `${sentCount} captured, ${failedCount} failed${suppressedSummary}; nothing was sent`
+                            : `${sentCount} sent, ${failedCount} failed${suppressedSummary}`}
+                        </CardDescription>
+                      </div>
+                      {campaignId && isDryRun && (
+                        <Button variant="outline" size="sm" asChild>
+                          <Link
+                            href={`/campaigns/${campaignId}/dry-run`}
+                            data-testid="link-dry-run-messages"
+                          >
+                            <Eye className="h-4 w-4 mr-2" />
+                            Browse Messages
+                          </Link>
+                        </Button>
+                      )}
+                      {campaignId && failedCount > 0 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={retryFailed}
+                          disabled={isRetrying}
+                          data-testid="button-retry-failed"
+                        >
+                          {isRetrying ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <RotateCw className="h-4 w-4 mr-2" />
+                          )}
+                          Retry {failedCount} Failed
+                        </Button>
+                      )}
                     </CardHeader>
                     <CardContent>
                       <div className="max-h-64 overflow-y-auto space-y-2">
@@ -814,14 +1774,41 @@ export default function Home() {
                             className="flex items-center justify-between gap-2 p-2 rounded-md border text-sm"
                             data-testid={`status-${status.email}`}
                           >
-                            <span className="truncate">{status.email}</span>
+                            <div className="min-w-0">
+                              <div className="truncate">{status.email}</div>
+                              {status.status === "sent" && status.deliveredVia && (
+                                <div className="truncate text-xs text-muted-foreground">
+                                  via {status.deliveredVia}
+                                </div>
+                              )}
+                              {status.status === "suppressed" && status.error && (
+                                <div className="truncate text-xs text-muted-foreground">
+                                  {status.error}
+                                </div>
+                              )}
+                              {status.status === "failed" && status.error && (
+                                <div className="truncate text-xs text-muted-foreground">
+                                  {status.smtpCode
+                                    ? `${status.smtpCode}: ${status.smtpResponse ?? status.error}`
+                                    : status.error}
+                                </div>
+                              )}
+                            </div>
                             {status.status === "sent" ? (
                               <Badge
                                 variant="secondary"
                                 className="flex-shrink-0"
                               >
                                 <CheckCircle2 className="h-3 w-3 mr-1" />
-                                Sent
+                                {isDryRun ? "Captured" : "Sent"}
+                              </Badge>
+                            ) : status.status === "suppressed" ? (
+                              <Badge
+                                variant="outline"
+                                className="flex-shrink-0"
+                              >
+                                <Ban className="h-3 w-3 mr-1" />
+                                Suppressed
                               </Badge>
                             ) : (
                               <Badge
@@ -844,6 +1831,22 @@ export default function Home() {
         </Form>
       </main>
 
+      <RecipientImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        initialText={importText}
+        onImport={handleImport}
+      />
+
+      <TestSendDialog
+        open={isTestSendOpen}
+        onOpenChange={setIsTestSendOpen}
+        recipients={recipients}
+        seedAddresses={policy?.seedAddresses ?? []}
+        isSending={isTestSending}
+        onSend={handleTestSend}
+      />
+
       <Dialog open={isPreviewOpen} onOpenChange={setIsPreviewOpen}>
         <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
@@ -857,26 +1860,45 @@ export default function Home() {
               <div className="text-sm font-medium text-muted-foreground">
                 From
               </div>
-              <div className="text-sm">crmsupport@legacylifespaces.com</div>
+              <div className="text-sm">
+                {selectedIdentity
+                  ? formatSender(selectedIdentity.fromName, selectedIdentity.fromEmail)
+                  : "No sender identity selected"}
+              </div>
             </div>
             <div className="space-y-2">
               <div className="text-sm font-medium text-muted-foreground">
                 To
               </div>
-              <div className="text-sm">{recipients.length} recipients</div>
+              <div className="text-sm">
+                {recipients.length} recipients
+                {recipients.length > 0 && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    (showing merge data for {recipients[0].email})
+                  </span>
+                )}
+              </div>
             </div>
             <div className="space-y-2">
               <div className="text-sm font-medium text-muted-foreground">
                 Subject
               </div>
               <div className="text-lg font-semibold">
-                {form.getValues("subject")}
+                {renderTemplate(form.getValues("subject"), previewVariables)}
               </div>
             </div>
             <Separator />
-            <div
-              className="prose prose-sm max-w-none"
-              dangerouslySetInnerHTML={{ __html: form.getValues("htmlBody") }}
+            <EmailPreviewFrame
+              title="Message preview"
+              html={renderTemplate(
+                decorateBody(form.getValues("htmlBody"), {
+                  signatureHtml: selectedIdentity?.signatureHtml,
+                  logoSrc: previewLogoSrc,
+                }),
+                previewVariables,
+                { escapeHtml: true },
+              )}
               data-testid="preview-body"
             />
           </div>
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, Loader2, SlidersHorizontal } from "lucide-react";
+import {
+  CAMPAIGN_CATEGORY_LABELS,
+  subscriptionCategoryValues,
+  type PreferenceDetails,
+  type SubscriptionCategory,
+  type UpdatePreferencesRequest,
+} from "@shared/schema";
+
+/**
+ * Public preference page behind {{preferences_url}}, keyed by the same
+ * signed token as the unsubscribe link. Recipients pick the categories they
+ * still want; transactional notices are not a choice here.
+ */
+export default function PreferencesPage() {
+  const { token } = useParams<{ token: string }>();
+  const detailsKey = `/api/preferences/${token}`;
+  const [optedOut, setOptedOut] = useState<SubscriptionCategory[]>([]);
+
+  const { data: details, isLoading, error } = useQuery<PreferenceDetails>({
+    queryKey: [detailsKey],
+  });
+
+  useEffect(() => {
+    if (details) setOptedOut(details.optedOut);
+  }, [details]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (request: UpdatePreferencesRequest) => {
+      const response = await apiRequest("PUT", detailsKey, request);
+      return (await response.json()) as PreferenceDetails;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([detailsKey], saved);
+    },
+  });
+
+  const toggle = (category: SubscriptionCategory, subscribed: boolean) => {
+    saveMutation.reset();
+    setOptedOut((current) =>
+      subscribed
+        ? current.filter((entry) => entry !== category)
+        : [...current, category],
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        {isLoading ? (
+          <CardContent className="py-12 flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </CardContent>
+        ) : error || !details ? (
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-6 w-6 text-destructive" />
+              <CardTitle className="text-xl">Link Not Valid</CardTitle>
+            </div>
+            <CardDescription>
+              This preferences link is incomplete or has been altered. Use the
+              link from the most recent email you received.
+            </CardDescription>
+          </CardHeader>
+        ) : details.unsubscribed ? (
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="h-6 w-6 text-primary" />
+              <CardTitle className="text-xl">You Are Unsubscribed</CardTitle>
+            </div>
+            <CardDescription data-testid="text-unsubscribed">
+              {details.email} will not receive any more emails from us.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <SlidersHorizontal className="h-6 w-6 text-primary" />
+                <CardTitle className="text-xl">Email Preferences</CardTitle>
+              </div>
+              <CardDescription>
+                Choose which emails <strong>{details.email}</strong> gets
+                {details.fromName && <> from {details.fromName}</>}. Notices
+                about your account are always sent.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-3">
+                {subscriptionCategoryValues.map((category) => (
+                  <div key={category} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`category-${category}`}
+                      checked={!optedOut.includes(category)}
+                      onCheckedChange={(checked) => toggle(category, checked === true)}
+                      disabled={saveMutation.isPending}
+                      data-testid={`checkbox-category-${category}`}
+                    />
+                    <Label htmlFor={`category-${category}`} className="font-normal">
+                      {CAMPAIGN_CATEGORY_LABELS[category]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => saveMutation.mutate({ optedOut })}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-preferences"
+              >
+                {saveMutation.isPending && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Save Preferences
+              </Button>
+              {saveMutation.isSuccess && (
+                <p className="text-sm text-muted-foreground" data-testid="text-preferences-saved">
+                  Your preferences have been saved.
+                </p>
+              )}
+              {saveMutation.error && (
+                <p className="text-sm text-destructive">
+                  Something went wrong. Please try again.
+                </p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Don't want any emails?{" "}
+                <Link href={`/u/${token}`} className="underline">
+                  Unsubscribe from everything
+                </Link>
+              </p>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
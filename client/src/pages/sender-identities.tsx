@@ -0,0 +1,469 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  MAX_SENDER_LOGO_BYTES,
+  senderLogoTypes,
+  type PublicSenderIdentity,
+  type PublicSmtpProfile,
+  type SenderIdentityInput,
+} from "@shared/schema";
+import { formatSender, senderLogoUrl } from "@shared/sender";
+
+const IDENTITIES_KEY = "/api/sender-identities";
+
+type LogoUpload = NonNullable<SenderIdentityInput["logo"]>;
+
+type IdentityForm = {
+  name: string;
+  fromName: string;
+  fromEmail: string;
+  replyTo: string;
+  signatureHtml: string;
+  smtpProfileIds: string[];
+  // undefined keeps the stored logo, null removes it
+  logo: LogoUpload | null | undefined;
+};
+
+const EMPTY_FORM: IdentityForm = {
+  name: "",
+  fromName: "",
+  fromEmail: "",
+  replyTo: "",
+  signatureHtml: "",
+  smtpProfileIds: [],
+  logo: undefined,
+};
+
+const toForm = (identity: PublicSenderIdentity): IdentityForm => ({
+  name: identity.name,
+  fromName: identity.fromName,
+  fromEmail: identity.fromEmail,
+  replyTo: identity.replyTo ?? "",
+  signatureHtml: identity.signatureHtml ?? "",
+  smtpProfileIds: identity.smtpProfileIds,
+  logo: undefined,
+});
+
+function readLogo(file: File): Promise<LogoUpload> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({
+        contentType: file.type as LogoUpload["contentType"],
+        content: dataUrl.slice(dataUrl.indexOf(",") + 1),
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function SenderIdentitiesPage() {
+  const { toast } = useToast();
+  // null: closed, "new": creating, otherwise the identity being edited
+  const [editing, setEditing] = useState<PublicSenderIdentity | "new" | null>(
+    null,
+  );
+  const [values, setValues] = useState<IdentityForm>(EMPTY_FORM);
+
+  const { data: identities = [], isLoading } = useQuery<
+    PublicSenderIdentity[]
+  >({
+    queryKey: [IDENTITIES_KEY],
+  });
+  const { data: profiles = [] } = useQuery<PublicSmtpProfile[]>({
+    queryKey: ["/api/smtp-profiles"],
+  });
+  const profileNames = new Map(
+    profiles.map((profile) => [profile.id, profile.name]),
+  );
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const identity = {
+        name: values.name.trim(),
+        fromName: values.fromName.trim(),
+        fromEmail: values.fromEmail.trim(),
+        replyTo: values.replyTo.trim() || null,
+        signatureHtml: values.signatureHtml.trim() || null,
+        smtpProfileIds: values.smtpProfileIds,
+        ...(values.logo !== undefined ? { logo: values.logo } : {}),
+      };
+      if (editing === "new") {
+        await apiRequest("POST", IDENTITIES_KEY, identity);
+      } else if (editing) {
+        await apiRequest("PATCH", `${IDENTITIES_KEY}/${editing.id}`, identity);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IDENTITIES_KEY] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `${IDENTITIES_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IDENTITIES_KEY] });
+    },
+    onError,
+  });
+
+  const openEditor = (identity: PublicSenderIdentity | "new") => {
+    setValues(identity === "new" ? EMPTY_FORM : toForm(identity));
+    setEditing(identity);
+  };
+
+  const setValue = <K extends keyof IdentityForm>(
+    key: K,
+    value: IdentityForm[K],
+  ) => setValues((current) => ({ ...current, [key]: value }));
+
+  const toggleProfile = (id: string, allowed: boolean) =>
+    setValue(
+      "smtpProfileIds",
+      allowed
+        ? [...values.smtpProfileIds, id]
+        : values.smtpProfileIds.filter((current) => current !== id),
+    );
+
+  const handleLogo = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!(senderLogoTypes as readonly string[]).includes(file.type)) {
+      onError(new Error("The logo must be a PNG, JPEG or GIF image"));
+      return;
+    }
+    if (file.size > MAX_SENDER_LOGO_BYTES) {
+      onError(new Error("The logo must be 256 KB or smaller"));
+      return;
+    }
+    setValue("logo", await readLogo(file));
+  };
+
+  const logoPreview = values.logo
+    ? `data:${values.logo.contentType};base64,${values.logo.content}`
+    : values.logo === undefined && editing && editing !== "new"
+      ? senderLogoUrl(editing)
+      : null;
+
+  const isValid =
+    values.name.trim() !== "" &&
+    values.fromName.trim() !== "" &&
+    values.fromEmail.trim() !== "" &&
+    values.smtpProfileIds.length > 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back to composer">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Sender Identities</h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">Senders</CardTitle>
+              <CardDescription>
+                The name, address and branding recipients see; each identity
+                can only be used with the SMTP profiles allowed below
+              </CardDescription>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => openEditor("new")}
+              data-testid="button-add-identity"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Identity
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            ) : identities.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No identities yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>Reply-To</TableHead>
+                    <TableHead>SMTP Profiles</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {identities.map((identity) => {
+                    const logoUrl = senderLogoUrl(identity);
+                    return (
+                      <TableRow
+                        key={identity.id}
+                        data-testid={`row-identity-${identity.id}`}
+                      >
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {logoUrl && (
+                              <img
+                                src={logoUrl}
+                                alt=""
+                                className="h-6 max-w-16 object-contain"
+                              />
+                            )}
+                            {identity.name}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {formatSender(identity.fromName, identity.fromEmail)}
+                        </TableCell>
+                        <TableCell>{identity.replyTo ?? "—"}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {identity.smtpProfileIds.map((id) => (
+                              <Badge key={id} variant="secondary">
+                                {profileNames.get(id) ?? "Unknown"}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openEditor(identity)}
+                            aria-label={`Edit ${identity.name}`}
+                            data-testid={`button-edit-identity-${identity.id}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(identity.id)}
+                            disabled={deleteMutation.isPending}
+                            aria-label={`Delete ${identity.name}`}
+                            data-testid={`button-delete-identity-${identity.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing === "new" ? "Add Sender Identity" : "Edit Sender Identity"}
+            </DialogTitle>
+            <DialogDescription>
+              Campaigns keep the sender they were submitted with
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="identity-name">Name</Label>
+              <Input
+                id="identity-name"
+                value={values.name}
+                onChange={(e) => setValue("name", e.target.value)}
+                placeholder="e.g. Kairos Customer Desk"
+                data-testid="input-identity-name"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="identity-from-name">From Name</Label>
+                <Input
+                  id="identity-from-name"
+                  value={values.fromName}
+                  onChange={(e) => setValue("fromName", e.target.value)}
+                  data-testid="input-identity-from-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="identity-from-email">From Email</Label>
+                <Input
+                  id="identity-from-email"
+                  type="email"
+                  value={values.fromEmail}
+                  onChange={(e) => setValue("fromEmail", e.target.value)}
+                  data-testid="input-identity-from-email"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="identity-reply-to">Reply-To (optional)</Label>
+              <Input
+                id="identity-reply-to"
+                type="email"
+                value={values.replyTo}
+                onChange={(e) => setValue("replyTo", e.target.value)}
+                data-testid="input-identity-reply-to"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="identity-signature">Signature (HTML, optional)</Label>
+              <Textarea
+                id="identity-signature"
+                rows={4}
+                className="font-mono text-sm"
+                value={values.signatureHtml}
+                onChange={(e) => setValue("signatureHtml", e.target.value)}
+                placeholder="<p>Regards,<br>Kairos Customer Desk</p>"
+                data-testid="input-identity-signature"
+              />
+              <p className="text-xs text-muted-foreground">
+                Added below every campaign body; merge fields such as{" "}
+                {"{{name}}"} work here too
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="identity-logo">Logo (optional)</Label>
+              <div className="flex items-center gap-3">
+                {logoPreview && (
+                  <img
+                    src={logoPreview}
+                    alt="Logo preview"
+                    className="h-12 max-w-32 object-contain border rounded p-1"
+                  />
+                )}
+                <Input
+                  id="identity-logo"
+                  type="file"
+                  accept={senderLogoTypes.join(",")}
+                  onChange={handleLogo}
+                  data-testid="input-identity-logo"
+                />
+                {logoPreview && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setValue("logo", null)}
+                    aria-label="Remove logo"
+                    data-testid="button-remove-logo"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                PNG, JPEG or GIF up to 256 KB, shown above the body
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Allowed SMTP Profiles</Label>
+              {profiles.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Add an SMTP profile first.
+                </p>
+              ) : (
+                profiles.map((profile) => (
+                  <div key={profile.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`identity-profile-${profile.id}`}
+                      checked={values.smtpProfileIds.includes(profile.id)}
+                      onCheckedChange={(checked) =>
+                        toggleProfile(profile.id, checked === true)
+                      }
+                      data-testid={`checkbox-identity-profile-${profile.id}`}
+                    />
+                    <Label
+                      htmlFor={`identity-profile-${profile.id}`}
+                      className="font-normal"
+                    >
+                      {profile.name}
+                    </Label>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={!isValid || saveMutation.isPending}
+              data-testid="button-save-identity"
+            >
+              {saveMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Save Identity
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
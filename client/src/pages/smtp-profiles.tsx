@@ -0,0 +1,829 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ArrowLeft,
+  Loader2,
+  Pencil,
+  Plus,
+  PlugZap,
+  Trash2,
+} from "lucide-react";
+import {
+  deliveryProviderValues,
+  smtpAuthMethodValues,
+  smtpSecurityValues,
+  type DeliveryProvider,
+  type PublicSmtpProfile,
+  type RateLimit,
+  type SmtpAuthMethod,
+  type SmtpPool,
+  type SmtpSecurity,
+  type SmtpTimeouts,
+  type SmtpTlsOptions,
+} from "@shared/schema";
+
+const PROFILES_KEY = "/api/smtp-profiles";
+
+// Form state; numbers stay strings until submitted
+type ProfileForm = {
+  name: string;
+  provider: DeliveryProvider;
+  apiUrl: string;
+  apiKeyHeader: string;
+  host: string;
+  port: string;
+  username: string;
+  password: string;
+  security: SmtpSecurity;
+  authMethod: SmtpAuthMethod;
+  rejectUnauthorized: boolean;
+  servername: string;
+  minVersion: "" | NonNullable<SmtpTlsOptions["minVersion"]>;
+  ca: string;
+  // seconds
+  connectionTimeout: string;
+  greetingTimeout: string;
+  socketTimeout: string;
+  maxConnections: string;
+  maxMessages: string;
+  concurrency: string;
+  perSecond: string;
+  perMinute: string;
+  perHour: string;
+};
+
+const EMPTY_FORM: ProfileForm = {
+  name: "",
+  provider: "smtp",
+  apiUrl: "",
+  apiKeyHeader: "",
+  host: "smtp.zeptomail.in",
+  port: "587",
+  username: "",
+  password: "",
+  security: "starttls",
+  authMethod: "auto",
+  rejectUnauthorized: true,
+  servername: "",
+  minVersion: "",
+  ca: "",
+  connectionTimeout: "",
+  greetingTimeout: "",
+  socketTimeout: "",
+  maxConnections: "5",
+  maxMessages: "100",
+  concurrency: "5",
+  perSecond: "",
+  perMinute: "",
+  perHour: "",
+};
+
+const PROVIDER_LABELS: Record<DeliveryProvider, string> = {
+  smtp: "SMTP",
+  zeptomail: "ZeptoMail API",
+  http_json: "HTTP JSON API",
+  stub: "Stub (no delivery)",
+};
+
+// What the stored secret is called for each provider
+const SECRET_LABELS: Record<DeliveryProvider, string> = {
+  smtp: "Password",
+  zeptomail: "Send Mail Token",
+  http_json: "API Key",
+  stub: "",
+};
+
+const ZEPTOMAIL_API_URL = "https://api.zeptomail.in/v1.1/email";
+
+const SECURITY_LABELS: Record<SmtpSecurity, string> = {
+  tls: "Implicit TLS",
+  starttls: "STARTTLS (required)",
+  opportunistic: "STARTTLS if offered",
+  none: "None (plain text)",
+};
+
+const TIMEOUT_FIELDS = [
+  ["connectionTimeout", "Connect"],
+  ["greetingTimeout", "Greeting"],
+  ["socketTimeout", "Idle socket"],
+] as const;
+
+const POOL_FIELDS = [
+  ["concurrency", "Parallel sends"],
+  ["maxConnections", "Connections"],
+  ["maxMessages", "Messages per connection"],
+] as const;
+
+const RATE_FIELDS = [
+  ["perSecond", "per second"],
+  ["perMinute", "per minute"],
+  ["perHour", "per hour"],
+] as const;
+
+const toRateLimit = (value: string) =>
+  /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : undefined;
+
+const toTimeout = (seconds: string) => {
+  const value = toRateLimit(seconds);
+  return value === undefined ? undefined : value * 1000;
+};
+
+const toSeconds = (ms: number | undefined) =>
+  ms === undefined ? "" : String(Math.round(ms / 1000));
+
+const toForm = (profile: PublicSmtpProfile): ProfileForm => ({
+  name: profile.name,
+  provider: profile.provider,
+  apiUrl: profile.apiUrl ?? "",
+  apiKeyHeader: profile.apiKeyHeader ?? "",
+  host: profile.host,
+  port: String(profile.port),
+  username: profile.username,
+  password: "",
+  security: profile.security,
+  authMethod: profile.authMethod,
+  rejectUnauthorized: profile.tls.rejectUnauthorized,
+  servername: profile.tls.servername ?? "",
+  minVersion: profile.tls.minVersion ?? "",
+  ca: profile.tls.ca ?? "",
+  connectionTimeout: toSeconds(profile.timeouts.connection),
+  greetingTimeout: toSeconds(profile.timeouts.greeting),
+  socketTimeout: toSeconds(profile.timeouts.socket),
+  maxConnections: String(profile.pool.maxConnections),
+  maxMessages: String(profile.pool.maxMessages),
+  concurrency: String(profile.pool.concurrency),
+  perSecond: profile.rateLimit.perSecond?.toString() ?? "",
+  perMinute: profile.rateLimit.perMinute?.toString() ?? "",
+  perHour: profile.rateLimit.perHour?.toString() ?? "",
+});
+
+export default function SmtpProfilesPage() {
+  const { toast } = useToast();
+  // null: closed, "new": creating, otherwise the profile being edited
+  const [editing, setEditing] = useState<PublicSmtpProfile | "new" | null>(
+    null,
+  );
+  const [values, setValues] = useState<ProfileForm>(EMPTY_FORM);
+
+  const { data: profiles = [], isLoading } = useQuery<PublicSmtpProfile[]>({
+    queryKey: [PROFILES_KEY],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rateLimit: RateLimit = {
+        perSecond: toRateLimit(values.perSecond),
+        perMinute: toRateLimit(values.perMinute),
+        perHour: toRateLimit(values.perHour),
+      };
+      const tls: SmtpTlsOptions = {
+        rejectUnauthorized: values.rejectUnauthorized,
+        servername: values.servername.trim() || undefined,
+        minVersion: values.minVersion || undefined,
+        ca: values.ca.trim() || undefined,
+      };
+      const timeouts: SmtpTimeouts = {
+        connection: toTimeout(values.connectionTimeout),
+        greeting: toTimeout(values.greetingTimeout),
+        socket: toTimeout(values.socketTimeout),
+      };
+      const pool: SmtpPool = {
+        maxConnections: Number(values.maxConnections),
+        maxMessages: Number(values.maxMessages),
+        concurrency: Number(values.concurrency),
+      };
+      const profile = {
+        name: values.name.trim(),
+        provider: values.provider,
+        apiUrl: values.apiUrl.trim() || null,
+        apiKeyHeader: values.apiKeyHeader.trim() || null,
+        host: values.host.trim(),
+        port: Number(values.port),
+        username: values.username,
+        security: values.security,
+        authMethod: values.authMethod,
+        tls,
+        timeouts,
+        pool,
+        rateLimit,
+        // Left blank when editing to keep the stored password or key
+        ...(values.password ? { password: values.password } : {}),
+      };
+      if (editing === "new") {
+        await apiRequest("POST", PROFILES_KEY, profile);
+      } else if (editing) {
+        await apiRequest("PATCH", `${PROFILES_KEY}/${editing.id}`, profile);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [PROFILES_KEY] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (profile: PublicSmtpProfile) => {
+      await apiRequest("POST", `${PROFILES_KEY}/${profile.id}/verify`);
+      return profile;
+    },
+    onSuccess: (profile) => {
+      toast({
+        title: "Connection OK",
+        description:
+          profile.provider === "smtp"
+            ? `Signed in to ${profile.host} as ${profile.username}.`
+            : `${PROVIDER_LABELS[profile.provider]} settings look complete; credentials are checked when the first message is sent.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `${PROFILES_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [PROFILES_KEY] });
+    },
+    onError,
+  });
+
+  const openEditor = (profile: PublicSmtpProfile | "new") => {
+    setValues(profile === "new" ? EMPTY_FORM : toForm(profile));
+    setEditing(profile);
+  };
+
+  const setValue = <K extends keyof ProfileForm>(key: K, value: ProfileForm[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  // Port 465 means implicit TLS almost everywhere; follow the port unless
+  // the admin picked something unusual
+  const setPort = (port: string) =>
+    setValues((current) => ({
+      ...current,
+      port,
+      security:
+        port === "465" && current.security === "starttls"
+          ? "tls"
+          : port !== "465" && current.security === "tls"
+            ? "starttls"
+            : current.security,
+    }));
+
+  // The stub needs no secret; the generic API may be unauthenticated
+  const needsSecret =
+    editing === "new" &&
+    (values.provider === "smtp" || values.provider === "zeptomail");
+  const isValid =
+    values.name.trim() !== "" &&
+    (values.provider !== "smtp" ||
+      (values.host.trim() !== "" &&
+        /^\d+$/.test(values.port) &&
+        values.username !== "")) &&
+    (values.provider !== "http_json" || values.apiUrl.trim() !== "") &&
+    POOL_FIELDS.every(([key]) => toRateLimit(values[key]) !== undefined) &&
+    (!needsSecret || values.password !== "");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back to composer">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">SMTP Profiles</h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">Sending Accounts</CardTitle>
+              <CardDescription>
+                Operators pick a profile when sending; passwords are stored
+                encrypted and never shown again
+              </CardDescription>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => openEditor("new")}
+              data-testid="button-add-profile"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Profile
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            ) : profiles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No profiles yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Delivery</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead className="w-32" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.map((profile) => (
+                    <TableRow
+                      key={profile.id}
+                      data-testid={`row-profile-${profile.id}`}
+                    >
+                      <TableCell className="font-medium">{profile.name}</TableCell>
+                      <TableCell>
+                        {profile.provider === "smtp" ? (
+                          <>
+                            {profile.host}:{profile.port}
+                            <div className="text-xs text-muted-foreground">
+                              {SECURITY_LABELS[profile.security]}
+                              {!profile.tls.rejectUnauthorized &&
+                                ", certificate not checked"}
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            {PROVIDER_LABELS[profile.provider]}
+                            {profile.apiUrl && (
+                              <div className="text-xs text-muted-foreground">
+                                {new URL(profile.apiUrl).host}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {profile.provider === "smtp" ? profile.username : "—"}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => verifyMutation.mutate(profile)}
+                          disabled={verifyMutation.isPending}
+                          aria-label={`Test ${profile.name}`}
+                          data-testid={`button-verify-profile-${profile.id}`}
+                        >
+                          <PlugZap className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditor(profile)}
+                          aria-label={`Edit ${profile.name}`}
+                          data-testid={`button-edit-profile-${profile.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(profile.id)}
+                          disabled={deleteMutation.isPending}
+                          aria-label={`Delete ${profile.name}`}
+                          data-testid={`button-delete-profile-${profile.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing === "new" ? "Add SMTP Profile" : "Edit SMTP Profile"}
+            </DialogTitle>
+            <DialogDescription>
+              {editing === "new"
+                ? "Passwords and API keys are encrypted before they are stored"
+                : "Leave the password or key empty to keep the current one"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={values.name}
+                onChange={(e) => setValue("name", e.target.value)}
+                placeholder="e.g. ZeptoMail CRM"
+                data-testid="input-profile-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-provider">Delivery</Label>
+              <Select
+                value={values.provider}
+                onValueChange={(value) =>
+                  setValues((current) => ({
+                    ...current,
+                    provider: value as DeliveryProvider,
+                    apiUrl:
+                      value === "zeptomail" && current.apiUrl === ""
+                        ? ZEPTOMAIL_API_URL
+                        : current.apiUrl,
+                  }))
+                }
+              >
+                <SelectTrigger
+                  id="profile-provider"
+                  data-testid="select-profile-provider"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {deliveryProviderValues
+                    // The server refuses the stub outside development
+                    .filter(
+                      (provider) =>
+                        provider !== "stub" ||
+                        import.meta.env.DEV ||
+                        values.provider === "stub",
+                    )
+                    .map((provider) => (
+                      <SelectItem key={provider} value={provider}>
+                        {PROVIDER_LABELS[provider]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {values.provider === "stub" && (
+                <p className="text-xs text-muted-foreground">
+                  Accepts every message without sending it; addresses
+                  containing "defer" or "bounce" fail, for testing retries
+                </p>
+              )}
+            </div>
+            {values.provider === "smtp" && (
+              <>
+              <div className="grid gap-4 grid-cols-[1fr_100px]">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-host">Host</Label>
+                  <Input
+                    id="profile-host"
+                    value={values.host}
+                    onChange={(e) => setValue("host", e.target.value)}
+                    data-testid="input-profile-host"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-port">Port</Label>
+                  <Input
+                    id="profile-port"
+                    inputMode="numeric"
+                    value={values.port}
+                    onChange={(e) => setPort(e.target.value)}
+                    data-testid="input-profile-port"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-username">Username</Label>
+                  <Input
+                    id="profile-username"
+                    value={values.username}
+                    onChange={(e) => setValue("username", e.target.value)}
+                    autoComplete="off"
+                    data-testid="input-profile-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-password">Password</Label>
+                  <Input
+                    id="profile-password"
+                    type="password"
+                    value={values.password}
+                    onChange={(e) => setValue("password", e.target.value)}
+                    autoComplete="new-password"
+                    placeholder={editing === "new" ? "" : "Unchanged"}
+                    data-testid="input-profile-password"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-security">Security</Label>
+                  <Select
+                    value={values.security}
+                    onValueChange={(value) =>
+                      setValue("security", value as SmtpSecurity)
+                    }
+                  >
+                    <SelectTrigger
+                      id="profile-security"
+                      data-testid="select-profile-security"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {smtpSecurityValues.map((security) => (
+                        <SelectItem key={security} value={security}>
+                          {SECURITY_LABELS[security]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-auth-method">Authentication</Label>
+                  <Select
+                    value={values.authMethod}
+                    onValueChange={(value) =>
+                      setValue("authMethod", value as SmtpAuthMethod)
+                    }
+                  >
+                    <SelectTrigger
+                      id="profile-auth-method"
+                      data-testid="select-profile-auth-method"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {smtpAuthMethodValues.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {method === "auto" ? "Automatic" : method}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {values.security !== "none" && (
+                <div className="space-y-3">
+                  <Label>Certificate</Label>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="profile-reject-unauthorized"
+                      checked={values.rejectUnauthorized}
+                      onCheckedChange={(checked) =>
+                        setValue("rejectUnauthorized", checked === true)
+                      }
+                      data-testid="checkbox-profile-reject-unauthorized"
+                    />
+                    <Label
+                      htmlFor="profile-reject-unauthorized"
+                      className="font-normal"
+                    >
+                      Reject invalid or self-signed certificates
+                    </Label>
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-[1fr_140px]">
+                    <Input
+                      value={values.servername}
+                      onChange={(e) => setValue("servername", e.target.value)}
+                      placeholder="Certificate name (defaults to host)"
+                      aria-label="Certificate name"
+                      data-testid="input-profile-servername"
+                    />
+                    <Select
+                      value={values.minVersion || "default"}
+                      onValueChange={(value) =>
+                        setValue(
+                          "minVersion",
+                          value === "default"
+                            ? ""
+                            : (value as ProfileForm["minVersion"]),
+                        )
+                      }
+                    >
+                      <SelectTrigger
+                        aria-label="Minimum TLS version"
+                        data-testid="select-profile-min-version"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Any TLS</SelectItem>
+                        <SelectItem value="TLSv1.2">TLS 1.2+</SelectItem>
+                        <SelectItem value="TLSv1.3">TLS 1.3</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Textarea
+                    rows={3}
+                    className="font-mono text-xs"
+                    value={values.ca}
+                    onChange={(e) => setValue("ca", e.target.value)}
+                    placeholder="-----BEGIN CERTIFICATE----- (optional CA to trust, e.g. for a local test server)"
+                    aria-label="Trusted CA certificate"
+                    data-testid="input-profile-ca"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Timeouts</Label>
+                <div className="grid gap-4 md:grid-cols-3">
+                  {TIMEOUT_FIELDS.map(([key, label]) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <Input
+                        inputMode="numeric"
+                        placeholder="Default"
+                        value={values[key]}
+                        onChange={(e) => setValue(key, e.target.value)}
+                        aria-label={`${label} timeout`}
+                        data-testid={`input-profile-${key}`}
+                      />
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        s {label.toLowerCase()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              </>
+            )}
+            {(values.provider === "zeptomail" ||
+              values.provider === "http_json") && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-api-url">API URL</Label>
+                  <Input
+                    id="profile-api-url"
+                    type="url"
+                    value={values.apiUrl}
+                    onChange={(e) => setValue("apiUrl", e.target.value)}
+                    placeholder={
+                      values.provider === "zeptomail"
+                        ? ZEPTOMAIL_API_URL
+                        : "https://mail.example.com/api/send"
+                    }
+                    data-testid="input-profile-api-url"
+                  />
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {values.provider === "http_json" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="profile-api-key-header">Key Header</Label>
+                      <Input
+                        id="profile-api-key-header"
+                        value={values.apiKeyHeader}
+                        onChange={(e) => setValue("apiKeyHeader", e.target.value)}
+                        placeholder="Authorization"
+                        data-testid="input-profile-api-key-header"
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-api-key">
+                      {SECRET_LABELS[values.provider]}
+                    </Label>
+                    <Input
+                      id="profile-api-key"
+                      type="password"
+                      value={values.password}
+                      onChange={(e) => setValue("password", e.target.value)}
+                      autoComplete="new-password"
+                      placeholder={
+                        editing === "new"
+                          ? values.provider === "http_json"
+                            ? "e.g. Bearer abc123"
+                            : ""
+                          : "Unchanged"
+                      }
+                      data-testid="input-profile-api-key"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Throughput</Label>
+              <div className="grid gap-4 md:grid-cols-3">
+                {POOL_FIELDS.filter(
+                  // Connection pooling only applies to SMTP
+                  ([key]) => values.provider === "smtp" || key === "concurrency",
+                ).map(([key, label]) => (
+                  <div key={key} className="space-y-1">
+                    <Input
+                      inputMode="numeric"
+                      value={values[key]}
+                      onChange={(e) => setValue(key, e.target.value)}
+                      aria-label={label}
+                      data-testid={`input-profile-${key}`}
+                    />
+                    <span className="text-xs text-muted-foreground">
+                      {label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {values.provider === "smtp" && (
+                <p className="text-xs text-muted-foreground">
+                  Connections are pooled and reused; more parallel sends than
+                  connections just wait for a free one
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Sending Limits</Label>
+              <div className="grid gap-4 md:grid-cols-3">
+                {RATE_FIELDS.map(([key, label]) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Input
+                      inputMode="numeric"
+                      placeholder="No limit"
+                      value={values[key]}
+                      onChange={(e) => setValue(key, e.target.value)}
+                      data-testid={`input-profile-${key}`}
+                    />
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Shared by every campaign sent through this profile
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={!isValid || saveMutation.isPending}
+              data-testid="button-save-profile"
+            >
+              {saveMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Save Profile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
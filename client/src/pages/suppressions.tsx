@@ -0,0 +1,337 @@
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { parseEmails, readRecipientFile } from "@/lib/recipients";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Ban, Loader2, Trash2, Upload } from "lucide-react";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "@/lib/timezone";
+import {
+  SUPPRESSION_BATCH_LIMIT,
+  SUPPRESSION_REASON_LABELS,
+  type AddSuppressionsRequest,
+  type Suppression,
+} from "@shared/schema";
+
+const SUPPRESSIONS_KEY = "/api/suppressions";
+// Rows rendered at once; the search narrows the rest down
+const VISIBLE_ROWS = 200;
+
+type AddResult = { added: number; skipped: number };
+
+/**
+ * The global list of addresses no campaign may mail. Approvers and admins
+ * add addresses by hand or from a CSV/Excel file; unsubscribes and hard
+ * bounces are added by the server. Only admins can lift a suppression.
+ */
+export default function SuppressionsPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState("");
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [addText, setAddText] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: suppressions = [], isLoading } = useQuery<Suppression[]>({
+    queryKey: [SUPPRESSIONS_KEY],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (request: AddSuppressionsRequest) => {
+      const total: AddResult = { added: 0, skipped: 0 };
+      for (let i = 0; i < request.emails.length; i += SUPPRESSION_BATCH_LIMIT) {
+        const response = await apiRequest("POST", SUPPRESSIONS_KEY, {
+          ...request,
+          emails: request.emails.slice(i, i + SUPPRESSION_BATCH_LIMIT),
+        });
+        const result: AddResult = await response.json();
+        total.added += result.added;
+        total.skipped += result.skipped;
+      }
+      return total;
+    },
+    onSuccess: ({ added, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: [SUPPRESSIONS_KEY] });
+      setIsAddOpen(false);
+      setAddText("");
+      setNote("");
+      toast({
+        title: "Suppression List Updated",
+        description:
+          skipped > 0
+            ? `${added} address(es) added, ${skipped} already listed.`
+            : `${added} address(es) added.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (email: string) => {
+      await apiRequest("DELETE", `${SUPPRESSIONS_KEY}/${encodeURIComponent(email)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SUPPRESSIONS_KEY] });
+    },
+    onError,
+  });
+
+  // Every address in the file is taken, whichever column it is in
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const rows = await readRecipientFile(file);
+      const emails = parseEmails(rows.map((row) => row.join("\n")).join("\n"));
+      if (emails.length === 0) {
+        toast({
+          title: "No Addresses Found",
+          description: `${file.name} does not contain any valid email addresses.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      addMutation.mutate({ emails, reason: "import", note: `Imported from ${file.name}` });
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error("Could not read the file"));
+    }
+  };
+
+  const addEmails = parseEmails(addText);
+  const query = search.trim().toLowerCase();
+  const filtered = query
+    ? suppressions.filter(
+        (entry) =>
+          entry.email.includes(query) ||
+          (entry.detail ?? "").toLowerCase().includes(query),
+      )
+    : suppressions;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back to composer">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Suppression List</h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">Suppressed Addresses</CardTitle>
+              <CardDescription>
+                {suppressions.length} address(es) are skipped by every
+                campaign, including unsubscribes and hard bounces
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={addMutation.isPending}
+                data-testid="button-import-suppressions"
+              >
+                {addMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import File
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx"
+                className="hidden"
+                onChange={handleFileSelect}
+                data-testid="input-import-suppressions"
+              />
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => setIsAddOpen(true)}
+                data-testid="button-add-suppressions"
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Add Addresses
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search addresses or notes"
+              data-testid="input-search-suppressions"
+            />
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            ) : filtered.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {query ? "No matching addresses." : "Nobody is suppressed yet."}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Added</TableHead>
+                    {user?.role === "admin" && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.slice(0, VISIBLE_ROWS).map((entry) => (
+                    <TableRow key={entry.email} data-testid={`row-suppression-${entry.email}`}>
+                      <TableCell className="break-all">{entry.email}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            entry.reason === "hard_bounce" ? "destructive" : "secondary"
+                          }
+                          className="whitespace-nowrap"
+                        >
+                          {SUPPRESSION_REASON_LABELS[entry.reason]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-64 truncate">
+                        {entry.detail}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatInTimeZone(new Date(entry.createdAt), DEFAULT_TIME_ZONE)}
+                      </TableCell>
+                      {user?.role === "admin" && (
+                        <TableCell className="text-right">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(entry.email)}
+                            disabled={deleteMutation.isPending}
+                            aria-label={`Remove ${entry.email} from the suppression list`}
+                            data-testid={`button-delete-suppression-${entry.email}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {filtered.length > VISIBLE_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing {VISIBLE_ROWS} of {filtered.length}; search to find others.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Addresses</DialogTitle>
+            <DialogDescription>
+              Paste addresses in any format; campaigns will skip them from now on
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="suppression-emails">Addresses</Label>
+              <Textarea
+                id="suppression-emails"
+                value={addText}
+                onChange={(e) => setAddText(e.target.value)}
+                rows={6}
+                className="font-mono text-sm"
+                data-testid="input-suppression-emails"
+              />
+              <p className="text-xs text-muted-foreground">
+                {addEmails.length} valid address(es)
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suppression-note">Note (optional)</Label>
+              <Input
+                id="suppression-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Asked by phone not to be emailed"
+                data-testid="input-suppression-note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() =>
+                addMutation.mutate({
+                  emails: addEmails,
+                  reason: "manual",
+                  note: note.trim() || undefined,
+                })
+              }
+              disabled={addEmails.length === 0 || addMutation.isPending}
+              data-testid="button-save-suppressions"
+            >
+              {addMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Suppress {addEmails.length} Address(es)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, Loader2, MailX } from "lucide-react";
+import type { UnsubscribeDetails } from "@shared/schema";
+
+/**
+ * Public page behind the unsubscribe link in every message. Opening it
+ * changes nothing, since link scanners follow links too; the recipient
+ * confirms with the button.
+ */
+export default function UnsubscribePage() {
+  const { token } = useParams<{ token: string }>();
+  const detailsKey = `/api/unsubscribe/${token}`;
+
+  const { data: details, isLoading, error } = useQuery<UnsubscribeDetails>({
+    queryKey: [detailsKey],
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/u/${token}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [detailsKey] });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        {isLoading ? (
+          <CardContent className="py-12 flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </CardContent>
+        ) : error || !details ? (
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-6 w-6 text-destructive" />
+              <CardTitle className="text-xl">Link Not Valid</CardTitle>
+            </div>
+            <CardDescription>
+              This unsubscribe link is incomplete or has been altered. Use the
+              link from the most recent email you received.
+            </CardDescription>
+          </CardHeader>
+        ) : details.unsubscribed ? (
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="h-6 w-6 text-primary" />
+              <CardTitle className="text-xl">You Are Unsubscribed</CardTitle>
+            </div>
+            <CardDescription data-testid="text-unsubscribed">
+              {details.email} will not receive any more emails from us.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <MailX className="h-6 w-6 text-primary" />
+                <CardTitle className="text-xl">Unsubscribe</CardTitle>
+              </div>
+              <CardDescription>
+                Stop all emails to <strong>{details.email}</strong>
+                {details.fromName && <> from {details.fromName}</>}?
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => unsubscribeMutation.mutate()}
+                disabled={unsubscribeMutation.isPending}
+                data-testid="button-confirm-unsubscribe"
+              >
+                {unsubscribeMutation.isPending && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Unsubscribe
+              </Button>
+              {unsubscribeMutation.error && (
+                <p className="text-sm text-destructive">
+                  Something went wrong. Please try again.
+                </p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Only want fewer emails?{" "}
+                <Link href={`/preferences/${token}`} className="underline">
+                  Choose which emails you get
+                </Link>
+              </p>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, KeyRound, Loader2, Trash2, UserPlus } from "lucide-react";
+import {
+  userRoleValues,
+  type CreateUserRequest,
+  type PublicUser,
+  type UpdateUserRequest,
+  type UserRole,
+} from "@shared/schema";
+
+const USERS_KEY = "/api/users";
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  composer: "Composer",
+  approver: "Approver",
+  admin: "Admin",
+};
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newUser, setNewUser] = useState<CreateUserRequest>({
+    username: "",
+    password: "",
+    role: "composer",
+  });
+  // User whose password is being reset
+  const [resetUser, setResetUser] = useState<PublicUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: [USERS_KEY],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (user: CreateUserRequest) => {
+      await apiRequest("POST", USERS_KEY, user);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [USERS_KEY] });
+      setIsCreateOpen(false);
+      setNewUser({ username: "", password: "", role: "composer" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      update,
+    }: {
+      id: string;
+      update: UpdateUserRequest;
+    }) => {
+      await apiRequest("PATCH", `${USERS_KEY}/${id}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [USERS_KEY] });
+      setResetUser(null);
+      setNewPassword("");
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `${USERS_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [USERS_KEY] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back to composer">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Operators</h1>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-8">
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">User Accounts</CardTitle>
+              <CardDescription>
+                Composers send small campaigns, approvers can also send large
+                ones, admins manage accounts
+              </CardDescription>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => setIsCreateOpen(true)}
+              data-testid="button-add-user"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add User
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                        <TableCell>
+                          {user.username}
+                          {isSelf && (
+                            <span className="text-muted-foreground"> (you)</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            onValueChange={(role) =>
+                              updateMutation.mutate({
+                                id: user.id,
+                                update: { role: role as UserRole },
+                              })
+                            }
+                            disabled={isSelf || updateMutation.isPending}
+                          >
+                            <SelectTrigger
+                              className="w-36"
+                              data-testid={`select-role-${user.id}`}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {userRoleValues.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setResetUser(user)}
+                            aria-label={`Reset password for ${user.username}`}
+                            data-testid={`button-reset-password-${user.id}`}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate(user.id)}
+                            disabled={isSelf || deleteMutation.isPending}
+                            aria-label={`Delete ${user.username}`}
+                            data-testid={`button-delete-user-${user.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+            <DialogDescription>
+              Share the password with the operator; they sign in with it
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={newUser.username}
+                onChange={(e) =>
+                  setNewUser({ ...newUser, username: e.target.value })
+                }
+                data-testid="input-new-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newUser.password}
+                onChange={(e) =>
+                  setNewUser({ ...newUser, password: e.target.value })
+                }
+                placeholder="At least 8 characters"
+                data-testid="input-new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={newUser.role}
+                onValueChange={(role) =>
+                  setNewUser({ ...newUser, role: role as UserRole })
+                }
+              >
+                <SelectTrigger data-testid="select-new-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoleValues.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => createMutation.mutate(newUser)}
+              disabled={
+                !newUser.username.trim() ||
+                newUser.password.length < 8 ||
+                createMutation.isPending
+              }
+              data-testid="button-create-user"
+            >
+              {createMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Create User
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={resetUser !== null}
+        onOpenChange={(open) => !open && setResetUser(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Sets a new password for {resetUser?.username}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reset-password">New Password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="At least 8 characters"
+              data-testid="input-reset-password"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() =>
+                resetUser &&
+                updateMutation.mutate({
+                  id: resetUser.id,
+                  update: { password: newPassword },
+                })
+              }
+              disabled={newPassword.length < 8 || updateMutation.isPending}
+              data-testid="button-confirm-reset-password"
+            >
+              Save Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+/**
+ * Express 4 ignores the promise an async handler returns, so an error thrown
+ * after an await (a storage failure, a missing key) would go unhandled and
+ * end the process. This passes it to the error middleware instead.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
@@ -0,0 +1,156 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { loginSchema, type PublicUser, type User as SelectUser } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+// Stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+// Rejects requests without a signed-in operator. Mounted on /api after the
+// login routes, so everything else under /api requires a session.
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ message: "Please sign in to continue" });
+}
+
+// There is no public sign-up: the first admin account comes from
+// ADMIN_USERNAME / ADMIN_PASSWORD and is created on startup if missing.
+// Admins then create everyone else.
+async function seedAdmin() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    log("ADMIN_USERNAME/ADMIN_PASSWORD not set; no operator account was seeded", "auth");
+    return;
+  }
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    // Keep the configured account an admin so it can never be locked out
+    if (existing.role !== "admin") {
+      await storage.updateUser(existing.id, { role: "admin" });
+    }
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    role: "admin",
+  });
+  log(`created admin account "${username}"`, "auth");
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: process.env.SESSION_SECRET,
+      resave: false,
+      saveUninitialized: false,
+      store: storage.sessionStore,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    res.json(toPublicUser(req.user));
+  });
+
+  app.use("/api", requireAuth);
+
+  seedAdmin().catch((error) => {
+    log(`failed to seed operator account: ${error instanceof Error ? error.message : error}`, "auth");
+  });
+}
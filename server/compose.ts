@@ -0,0 +1,143 @@
+import { createHash } from "crypto";
+import type { Campaign, EmailRecipient } from "@shared/schema";
+import {
+  PREFERENCES_URL_PLACEHOLDER,
+  UNSUBSCRIBE_URL_PLACEHOLDER,
+  getMergeVariables,
+  htmlToText,
+  renderTemplate,
+} from "@shared/merge";
+import { SENDER_LOGO_CID, decorateBody } from "@shared/sender";
+import type { OutgoingAttachment, OutgoingMessage } from "./providers";
+import { storage, type AttachmentFile } from "./storage";
+import { preferencesUrl, unsubscribeUrl, type RecipientLink } from "./unsubscribe";
+
+// What a campaign sends, as stored on it or as submitted from the composer
+export type CampaignContent = Pick<
+  Campaign,
+  | "subject"
+  | "htmlBody"
+  | "textBody"
+  | "cc"
+  | "bcc"
+  | "senderIdentityId"
+  | "fromName"
+  | "fromEmail"
+  | "replyTo"
+  | "signatureHtml"
+>;
+
+export type PreparedContent = {
+  content: CampaignContent;
+  // Bodies with the identity's signature and logo applied, still templates
+  htmlBody: string;
+  textBody: string | null;
+  attachments: OutgoingAttachment[];
+};
+
+// Applies the sender identity once per campaign run rather than per recipient
+export async function prepareContent(
+  content: CampaignContent,
+  attachments: AttachmentFile[],
+): Promise<PreparedContent> {
+  const identity = content.senderIdentityId
+    ? await storage.getSenderIdentity(content.senderIdentityId)
+    : undefined;
+  const logo: OutgoingAttachment | undefined =
+    identity?.logoContent && identity.logoContentType
+      ? {
+          filename: "logo",
+          contentType: identity.logoContentType,
+          content: Buffer.from(identity.logoContent, "base64"),
+          cid: SENDER_LOGO_CID,
+        }
+      : undefined;
+  return {
+    content,
+    htmlBody: decorateBody(content.htmlBody, {
+      signatureHtml: content.signatureHtml,
+      logoSrc: logo ? `cid:${SENDER_LOGO_CID}` : null,
+    }),
+    textBody:
+      content.textBody && content.signatureHtml
+        ? `${content.textBody}\n\n${htmlToText(content.signatureHtml)}`
+        : content.textBody,
+    attachments: logo ? [...attachments, logo] : attachments,
+  };
+}
+
+// The message one recipient receives. `link` is whose unsubscribe and
+// preference links it carries: the recipient, or the seed address a test
+// send goes to.
+export function renderMessage(
+  prepared: PreparedContent,
+  recipient: EmailRecipient,
+  link: RecipientLink,
+): OutgoingMessage {
+  const { content } = prepared;
+  const url = unsubscribeUrl(link);
+  const preferences = preferencesUrl(link);
+  const variables = {
+    ...getMergeVariables(recipient),
+    ...(url ? { [UNSUBSCRIBE_URL_PLACEHOLDER]: url } : {}),
+    ...(preferences ? { [PREFERENCES_URL_PLACEHOLDER]: preferences } : {}),
+  };
+  const html = renderTemplate(prepared.htmlBody, variables, {
+    escapeHtml: true,
+  });
+  return {
+    from: {
+      name: content.fromName ?? undefined,
+      address: content.fromEmail,
+    },
+    replyTo: content.replyTo ?? undefined,
+    to: recipient.email,
+    subject: renderTemplate(content.subject, variables),
+    html,
+    text: prepared.textBody
+      ? renderTemplate(prepared.textBody, variables)
+      : htmlToText(html),
+    cc: content.cc,
+    bcc: content.bcc,
+    attachments: prepared.attachments,
+    // RFC 2369 and RFC 8058 one-click unsubscribe
+    headers: url
+      ? {
+          "List-Unsubscribe": `<${url}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        }
+      : {},
+  };
+}
+
+/**
+ * Fingerprint of everything recipients would see, so a test send can be
+ * matched to the campaign later submitted (or already submitted) with
+ * exactly the same content.
+ */
+export function contentHash(
+  content: CampaignContent,
+  attachments: AttachmentFile[],
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        content.subject,
+        content.htmlBody,
+        content.textBody ?? null,
+        content.cc,
+        content.bcc,
+        content.senderIdentityId,
+        content.fromName,
+        content.fromEmail,
+        content.replyTo,
+        content.signatureHtml,
+        attachments.map((attachment) => [
+          attachment.filename,
+          attachment.contentType,
+          createHash("sha256").update(attachment.content).digest("hex"),
+        ]),
+      ]),
+    )
+    .digest("hex");
+}
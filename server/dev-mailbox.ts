@@ -0,0 +1,248 @@
+import type { Express } from "express";
+import { SMTPServer } from "smtp-server";
+import { simpleParser } from "mailparser";
+import { generate } from "selfsigned";
+import {
+  smtpProfileInputSchema,
+  type MailboxMessage,
+  type MailboxMessageSummary,
+  type SmtpSecurity,
+} from "@shared/schema";
+import { asyncHandler } from "./async-handler";
+import { storage } from "./storage";
+import { encryptSecret } from "./secrets";
+import { log } from "./vite";
+
+// Oldest messages are dropped beyond this
+const MAILBOX_LIMIT = 200;
+const MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+
+export const DEV_MAILBOX_PROFILE_NAME = "Dev Mailbox";
+
+type CaughtMessage = MailboxMessageSummary & { raw: Buffer };
+
+const messages: CaughtMessage[] = [];
+let nextId = 1;
+
+function devSmtpPort(): number {
+  return parseInt(process.env.DEV_SMTP_PORT || "2525", 10);
+}
+
+function devSmtpsPort(): number {
+  return parseInt(process.env.DEV_SMTPS_PORT || "2465", 10);
+}
+
+type DevCertificate = { key: string; cert: string };
+
+// A fresh self-signed certificate for 127.0.0.1 on every start; the TLS
+// profiles below trust exactly this one through their CA setting
+async function createDevCertificate(): Promise<DevCertificate> {
+  const pems = await generate([{ name: "commonName", value: "localhost" }], {
+    keySize: 2048,
+    algorithm: "sha256",
+    extensions: [
+      {
+        name: "subjectAltName",
+        altNames: [
+          { type: 2, value: "localhost" },
+          { type: 7, ip: "127.0.0.1" },
+        ],
+      },
+    ],
+  });
+  return { key: pems.private, cert: pems.cert };
+}
+
+async function catchMessage(raw: Buffer, envelopeFrom: string, envelopeTo: string[]) {
+  const parsed = await simpleParser(raw);
+  messages.push({
+    id: nextId++,
+    receivedAt: new Date().toISOString(),
+    envelopeFrom,
+    envelopeTo,
+    from: parsed.from?.text ?? "",
+    to: [parsed.to ?? []].flat().map((address) => address.text).join(", "),
+    subject: parsed.subject ?? "",
+    size: raw.length,
+    attachmentCount: parsed.attachments.length,
+    raw,
+  });
+  if (messages.length > MAILBOX_LIMIT) messages.shift();
+}
+
+async function toMailboxMessage({ raw, ...summary }: CaughtMessage): Promise<MailboxMessage> {
+  const parsed = await simpleParser(raw);
+  return {
+    ...summary,
+    headers: parsed.headerLines.map(({ key, line }) => ({ key, line })),
+    html: parsed.html || null,
+    text: parsed.text ?? null,
+    attachments: parsed.attachments.map((attachment) => ({
+      filename: attachment.filename ?? "attachment",
+      contentType: attachment.contentType,
+      size: attachment.size,
+      ...(attachment.cid ? { cid: attachment.cid } : {}),
+    })),
+  };
+}
+
+type DevProfile = {
+  name: string;
+  port: number;
+  security: SmtpSecurity;
+};
+
+function devProfiles(port: number, securePort: number): DevProfile[] {
+  return [
+    { name: DEV_MAILBOX_PROFILE_NAME, port, security: "none" },
+    { name: `${DEV_MAILBOX_PROFILE_NAME} (STARTTLS)`, port, security: "starttls" },
+    { name: `${DEV_MAILBOX_PROFILE_NAME} (TLS)`, port: securePort, security: "tls" },
+  ];
+}
+
+// SMTP profiles pointing at the sink, one per security mode, so the
+// composer can send to it like any other profile. Created once; the TLS
+// ones get the current certificate as their CA on every start. Admins still
+// have to allow them on the sender identities that should use them.
+async function ensureDevMailboxProfiles(
+  port: number,
+  securePort: number,
+  certificate: DevCertificate,
+) {
+  const profiles = await storage.listSmtpProfiles();
+  for (const spec of devProfiles(port, securePort)) {
+    const tls = spec.security === "none" ? {} : { ca: certificate.cert };
+    const existing = profiles.find(
+      (profile) => profile.provider === "smtp" && profile.name === spec.name,
+    );
+    if (existing) {
+      if (spec.security !== "none") {
+        await storage.updateSmtpProfile(existing.id, { tls: { ...existing.tls, ...tls } });
+      }
+      continue;
+    }
+    const { password, ...profile } = smtpProfileInputSchema.parse({
+      name: spec.name,
+      provider: "smtp",
+      host: "127.0.0.1",
+      port: spec.port,
+      username: "dev",
+      password: "dev",
+      security: spec.security,
+      tls,
+    });
+    await storage.createSmtpProfile({ ...profile, encryptedPassword: encryptSecret(password) });
+    log(`created SMTP profile "${spec.name}"`, "dev-mailbox");
+  }
+}
+
+// The same sink on two ports: plain text with STARTTLS offered, and
+// implicit TLS
+async function startSinks() {
+  const port = devSmtpPort();
+  const securePort = devSmtpsPort();
+  const certificate = await createDevCertificate();
+  const listeners = [
+    { port, secure: false },
+    { port: securePort, secure: true },
+  ];
+  for (const listener of listeners) {
+    const server = new SMTPServer({
+      secure: listener.secure,
+      key: certificate.key,
+      cert: certificate.cert,
+      authOptional: true,
+      allowInsecureAuth: true,
+      size: MAX_MESSAGE_BYTES,
+      logger: false,
+      onAuth(_auth, _session, callback) {
+        callback(null, { user: "dev" });
+      },
+      onData(stream, session, callback) {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => {
+          if (stream.sizeExceeded) {
+            return callback(Object.assign(new Error("Message too large"), { responseCode: 552 }));
+          }
+          const { mailFrom, rcptTo } = session.envelope;
+          catchMessage(
+            Buffer.concat(chunks),
+            mailFrom ? mailFrom.address : "",
+            rcptTo.map((recipient) => recipient.address),
+          ).then(() => callback(), callback);
+        });
+      },
+    });
+    server.on("error", (error) => {
+      console.error("Dev mailbox SMTP server error:", error);
+    });
+    server.listen(listener.port, "127.0.0.1", () => {
+      log(
+        `catching mail on 127.0.0.1:${listener.port}${listener.secure ? " (TLS)" : ""}`,
+        "dev-mailbox",
+      );
+    });
+  }
+  await ensureDevMailboxProfiles(port, securePort, certificate);
+}
+
+/**
+ * Development only: an SMTP server on 127.0.0.1 that accepts any login and
+ * every message and keeps the most recent ones in memory, plus the
+ * /api/dev/mailbox routes behind the /dev/mailbox page. It listens in plain
+ * text with STARTTLS on DEV_SMTP_PORT (default 2525) and with implicit TLS
+ * on DEV_SMTPS_PORT (default 2465), so every profile security mode can be
+ * tried against it. Nothing it receives is ever relayed.
+ */
+export function setupDevMailbox(app: Express): void {
+  startSinks().catch((error) => {
+    console.error("Failed to start the dev mailbox:", error);
+  });
+
+  const findMessage = (id: string) =>
+    messages.find((message) => message.id === parseInt(id, 10));
+
+  // Newest first
+  app.get("/api/dev/mailbox", (_req, res) => {
+    res.json(messages.map(({ raw: _raw, ...summary }) => summary).reverse());
+  });
+
+  app.delete("/api/dev/mailbox", (_req, res) => {
+    messages.length = 0;
+    res.status(204).end();
+  });
+
+  app.get("/api/dev/mailbox/:id", asyncHandler(async (req, res) => {
+    const message = findMessage(req.params.id);
+    if (!message) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+    res.json(await toMailboxMessage(message));
+  }));
+
+  app.get("/api/dev/mailbox/:id/raw", (req, res) => {
+    const message = findMessage(req.params.id);
+    if (!message) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.send(message.raw);
+  });
+
+  app.get("/api/dev/mailbox/:id/attachments/:index", asyncHandler(async (req, res) => {
+    const message = findMessage(req.params.id);
+    const attachment = message
+      ? (await simpleParser(message.raw)).attachments[parseInt(req.params.index, 10)]
+      : undefined;
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    res.setHeader("Content-Type", attachment.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename*=UTF-8''${encodeURIComponent(attachment.filename ?? "attachment")}`,
+    );
+    res.send(attachment.content);
+  }));
+}
@@ -10,6 +10,8 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  // Room for a base64-encoded sender logo
+  limit: "1mb",
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
@@ -49,12 +51,17 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+  // Route handlers pass their errors here (server/async-handler.ts); the
+  // process keeps serving
+  app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+    console.error(err);
+    // e.g. a campaign event stream that was already open
+    if (res.headersSent) return next(err);
+
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
     res.status(status).json({ message });
-    throw err;
   });
 
   // importantly only setup vite in development and after
@@ -0,0 +1,48 @@
+import { rootCertificates } from "tls";
+import nodemailer from "nodemailer";
+import type { SMTPConfig, SmtpProfile } from "@shared/schema";
+import { decryptSecret } from "./secrets";
+
+// Transport settings for a stored profile, with its password decrypted
+export function toSmtpConfig(profile: SmtpProfile): SMTPConfig {
+  return {
+    username: profile.username,
+    password: decryptSecret(profile.encryptedPassword),
+    host: profile.host,
+    port: profile.port,
+    security: profile.security,
+    authMethod: profile.authMethod,
+    tls: profile.tls,
+    timeouts: profile.timeouts,
+    pool: profile.pool,
+    rateLimit: profile.rateLimit,
+  };
+}
+
+export function createSmtpTransport(config: SMTPConfig) {
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    pool: true,
+    maxConnections: config.pool.maxConnections,
+    maxMessages: config.pool.maxMessages,
+    secure: config.security === "tls",
+    requireTLS: config.security === "starttls",
+    ignoreTLS: config.security === "none",
+    auth: {
+      user: config.username,
+      pass: config.password,
+    },
+    authMethod: config.authMethod === "auto" ? undefined : config.authMethod,
+    tls: {
+      rejectUnauthorized: config.tls.rejectUnauthorized,
+      servername: config.tls.servername,
+      minVersion: config.tls.minVersion,
+      // Node's `ca` replaces the bundled roots rather than adding to them
+      ca: config.tls.ca ? [...rootCertificates, config.tls.ca] : undefined,
+    },
+    connectionTimeout: config.timeouts.connection,
+    greetingTimeout: config.timeouts.greeting,
+    socketTimeout: config.timeouts.socket,
+  });
+}
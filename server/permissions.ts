@@ -0,0 +1,42 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Campaign, SendPolicy, User, UserRole } from "@shared/schema";
+
+const DEFAULT_APPROVAL_THRESHOLD = 100;
+
+export function getSendPolicy(): SendPolicy {
+  const threshold = parseInt(process.env.APPROVAL_THRESHOLD ?? "", 10);
+  return {
+    approvalThreshold:
+      Number.isInteger(threshold) && threshold >= 0
+        ? threshold
+        : DEFAULT_APPROVAL_THRESHOLD,
+    seedAddresses: (process.env.TEST_SEED_ADDRESSES ?? "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean),
+  };
+}
+
+// Campaigns above the threshold need a second person's sign-off, whatever
+// the sender's role.
+export function requiresApproval(recipientCount: number): boolean {
+  return recipientCount > getSendPolicy().approvalThreshold;
+}
+
+// Returns why the user may not approve the campaign, if they may not.
+export function approvalDenial(user: User, campaign: Campaign): string | undefined {
+  if (user.role === "composer") {
+    return "Only approvers can approve campaigns";
+  }
+  if (campaign.createdBy === user.id) {
+    return "Campaigns must be approved by someone other than their author";
+  }
+  return undefined;
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.user && roles.includes(req.user.role)) return next();
+    res.status(403).json({ message: "You do not have permission to do that" });
+  };
+}
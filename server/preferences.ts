@@ -0,0 +1,84 @@
+import type { Express } from "express";
+import {
+  CAMPAIGN_CATEGORY_LABELS,
+  SUPPRESSION_REASON_LABELS,
+  updatePreferencesSchema,
+  type CampaignCategory,
+  type PreferenceDetails,
+} from "@shared/schema";
+import { asyncHandler } from "./async-handler";
+import { storage } from "./storage";
+import {
+  getUnsubscribeDetails,
+  verifyRecipientToken,
+  type RecipientLink,
+} from "./unsubscribe";
+import { log } from "./vite";
+
+/**
+ * Why each of these addresses must not get a campaign in `category`, keyed
+ * by lowercased email. The suppression list applies to every category;
+ * category preferences to everything but transactional notices.
+ */
+export async function findSkippedRecipients(
+  emails: string[],
+  category: CampaignCategory,
+): Promise<Map<string, string>> {
+  const skipped = new Map<string, string>();
+  for (const suppression of await storage.getSuppressions(emails)) {
+    skipped.set(suppression.email, SUPPRESSION_REASON_LABELS[suppression.reason]);
+  }
+  if (category === "transactional") return skipped;
+  for (const preference of await storage.getSubscriptionPreferences(emails)) {
+    if (!skipped.has(preference.email) && preference.optedOut.includes(category)) {
+      skipped.set(
+        preference.email,
+        `Opted out of ${CAMPAIGN_CATEGORY_LABELS[category].toLowerCase()}`,
+      );
+    }
+  }
+  return skipped;
+}
+
+async function getPreferenceDetails(link: RecipientLink): Promise<PreferenceDetails> {
+  const [preference] = await storage.getSubscriptionPreferences([link.email]);
+  return {
+    ...(await getUnsubscribeDetails(link)),
+    optedOut: preference?.optedOut ?? [],
+  };
+}
+
+/**
+ * Public preference page routes, keyed by the same signed token as the
+ * unsubscribe link and registered before the session middleware.
+ */
+export function setupPreferences(app: Express) {
+  app.get("/api/preferences/:token", asyncHandler(async (req, res) => {
+    const link = verifyRecipientToken(req.params.token);
+    if (!link) {
+      return res.status(404).json({ message: "This preferences link is not valid" });
+    }
+    res.json(await getPreferenceDetails(link));
+  }));
+
+  app.put("/api/preferences/:token", asyncHandler(async (req, res) => {
+    const link = verifyRecipientToken(req.params.token);
+    if (!link) {
+      return res.status(404).json({ message: "This preferences link is not valid" });
+    }
+    const result = updatePreferencesSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid request data",
+        errors: result.error.errors,
+      });
+    }
+    const optedOut = Array.from(new Set(result.data.optedOut));
+    await storage.setSubscriptionPreference(link.email, optedOut);
+    log(
+      `${link.email} opted out of ${optedOut.length > 0 ? optedOut.join(", ") : "nothing"}`,
+      "preferences",
+    );
+    res.json(await getPreferenceDetails(link));
+  }));
+}
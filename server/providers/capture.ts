@@ -0,0 +1,39 @@
+import MailComposer from "nodemailer/lib/mail-composer";
+import { formatSender } from "@shared/sender";
+import { storage } from "../storage";
+import { toMailOptions } from "./smtp";
+import type { MailProvider } from "./types";
+
+/**
+ * Used for dry runs in place of the campaign's real provider: every message
+ * is encoded exactly as it would be sent, to measure its size, and stored in
+ * captured_messages for the campaign instead of leaving the server.
+ */
+export function createCaptureProvider(campaignId: string): MailProvider {
+  return {
+    async verify() {},
+    async send(message) {
+      const raw = await new MailComposer(toMailOptions(message)).compile().build();
+      await storage.appendCapturedMessage({
+        campaignId,
+        email: message.to,
+        from: formatSender(message.from.name, message.from.address),
+        replyTo: message.replyTo ?? null,
+        cc: message.cc,
+        bcc: message.bcc,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: message.attachments.map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: attachment.content.length,
+          ...(attachment.cid ? { cid: attachment.cid } : {}),
+        })),
+        headers: message.headers,
+        size: raw.length,
+      });
+    },
+    close() {},
+  };
+}
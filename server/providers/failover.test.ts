@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { SmtpProfile } from "@shared/schema";
+import { ProviderChain } from "./failover";
+import { DeliveryError, type MailProvider, type OutgoingMessage } from "./types";
+
+function profile(id: string, name: string): SmtpProfile {
+  const now = new Date();
+  return {
+    id,
+    name,
+    provider: "stub",
+    host: "",
+    port: 0,
+    username: "",
+    encryptedPassword: "",
+    security: "none",
+    authMethod: "auto",
+    tls: { rejectUnauthorized: true },
+    timeouts: {},
+    pool: { maxConnections: 1, maxMessages: 100, concurrency: 1 },
+    rateLimit: {},
+    apiUrl: null,
+    apiKeyHeader: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function message(to: string): OutgoingMessage {
+  return {
+    from: { address: "sender@example.com" },
+    to,
+    cc: [],
+    bcc: [],
+    subject: "Hello",
+    html: "<p>Hello</p>",
+    text: "Hello",
+    attachments: [],
+    headers: {},
+  };
+}
+
+test("a send that starts during a switch waits for the next profile", async () => {
+  let finishVerify!: () => void;
+  const fallbackVerified = new Promise<void>((resolve) => {
+    finishVerify = resolve;
+  });
+  const delivered: Array<{ profile: string; to: string }> = [];
+  let fallbackCreated = false;
+
+  const providers: Record<string, MailProvider> = {
+    primary: {
+      async verify() {},
+      async send() {
+        throw new DeliveryError("Connection closed", { transient: true, connection: true });
+      },
+      close() {},
+    },
+    fallback: {
+      async verify() {
+        await fallbackVerified;
+      },
+      async send({ to }) {
+        delivered.push({ profile: "fallback", to });
+      },
+      close() {},
+    },
+  };
+  const chain = new ProviderChain([profile("1", "primary"), profile("2", "fallback")], {
+    createProvider: ({ name }) => {
+      if (name === "fallback") fallbackCreated = true;
+      return providers[name];
+    },
+  });
+  assert.equal((await chain.connect())?.profile.name, "primary");
+
+  const acquired: string[] = [];
+  const acquire = async ({ profile }: { profile: SmtpProfile }) => {
+    acquired.push(profile.name);
+  };
+
+  // The first send fails on the primary and starts the switch, which stays
+  // pending until the fallback verifies
+  const first = chain.send(message("first@example.com"), acquire);
+  while (!fallbackCreated) await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(chain.active, undefined);
+
+  const second = chain.send(message("second@example.com"), acquire);
+  finishVerify();
+
+  assert.equal((await first).profile.name, "fallback");
+  assert.equal((await second).profile.name, "fallback");
+  assert.deepEqual(delivered, [
+    { profile: "fallback", to: "first@example.com" },
+    { profile: "fallback", to: "second@example.com" },
+  ]);
+  // Every attempt went through the rate limit of the provider that took it
+  assert.deepEqual(acquired, ["primary", "fallback", "fallback"]);
+  chain.close();
+});
+
+test("a send fails once every profile is exhausted", async () => {
+  const chain = new ProviderChain([profile("1", "primary")], {
+    createProvider: () => ({
+      async verify() {},
+      async send() {
+        throw new DeliveryError("Connection refused", { transient: true, connection: true });
+      },
+      close() {},
+    }),
+  });
+  await chain.connect();
+
+  await assert.rejects(chain.send(message("someone@example.com")), (error) => {
+    assert.ok(error instanceof DeliveryError);
+    assert.match(error.message, /^No SMTP profile could be reached\. primary: Connection refused/);
+    return true;
+  });
+  chain.close();
+});
@@ -0,0 +1,127 @@
+import type { SmtpProfile } from "@shared/schema";
+import { log } from "../vite";
+import { createMailProvider } from "./index";
+import { DeliveryError, type MailProvider, type OutgoingMessage } from "./types";
+
+export type ActiveProvider = {
+  profile: SmtpProfile;
+  provider: MailProvider;
+};
+
+type ChainOptions = {
+  // Prefixes log lines, e.g. "campaign <id>"
+  label?: string;
+  // Dry runs swap in the capture provider
+  createProvider?: (profile: SmtpProfile) => MailProvider;
+};
+
+/**
+ * A campaign's primary profile followed by its fallbacks, in order.
+ * `connect` settles on the first one that verifies; `send` moves on to the
+ * next when the active one stops answering mid-campaign. Profiles are only
+ * ever tried once per chain, so a campaign never flaps back to a profile
+ * that already failed during the same run.
+ */
+export class ProviderChain {
+  private providers: MailProvider[] = [];
+  private position = 0;
+  private current?: ActiveProvider;
+  private switching?: Promise<ActiveProvider | undefined>;
+  private readonly label: string;
+  private readonly createProvider: (profile: SmtpProfile) => MailProvider;
+  // "<profile name>: <reason>" for every profile that could not be used
+  readonly failures: string[] = [];
+
+  constructor(
+    private readonly profiles: SmtpProfile[],
+    options: ChainOptions = {},
+  ) {
+    this.label = options.label ?? "delivery";
+    this.createProvider = options.createProvider ?? createMailProvider;
+  }
+
+  get active(): ActiveProvider | undefined {
+    return this.current;
+  }
+
+  async connect(): Promise<ActiveProvider | undefined> {
+    this.current = undefined;
+    while (this.position < this.profiles.length) {
+      const profile = this.profiles[this.position++];
+      try {
+        const provider = this.createProvider(profile);
+        this.providers.push(provider);
+        await provider.verify();
+        this.current = { profile, provider };
+        return this.current;
+      } catch (error) {
+        console.error(`Profile ${profile.id} could not be used:`, error);
+        this.failures.push(
+          `${profile.name}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Sends through the active provider, waiting for a switch in progress to
+   * settle first. A connection-level failure is the profile's fault, not the
+   * recipient's, so the same message goes straight to the next profile.
+   * `acquire` runs before every attempt with the provider about to take the
+   * message (e.g. to wait for its rate limit). Resolves with the provider
+   * that took it.
+   */
+  async send(
+    message: OutgoingMessage,
+    acquire?: (active: ActiveProvider) => Promise<void>,
+  ): Promise<ActiveProvider> {
+    // `connect` clears the active provider while it looks for the next one
+    let active = this.switching ? await this.switching : this.current;
+    for (;;) {
+      if (!active) {
+        throw new DeliveryError(
+          `No SMTP profile could be reached. ${this.failures.join("; ")}`,
+          { transient: true, connection: true },
+        );
+      }
+      await acquire?.(active);
+      try {
+        await active.provider.send(message);
+        return active;
+      } catch (error) {
+        if (!(error instanceof DeliveryError) || !error.connection) throw error;
+        active = await this.failover(active, error);
+      }
+    }
+  }
+
+  // Every delivery that saw `failed` go down ends up here; only the first
+  // switches, the others wait for and share its result.
+  private failover(failed: ActiveProvider, error: Error): Promise<ActiveProvider | undefined> {
+    if (this.current !== failed) {
+      return this.switching ?? Promise.resolve(this.current);
+    }
+    if (!this.switching) {
+      this.failures.push(`${failed.profile.name}: ${error.message}`);
+      this.switching = this.connect()
+        .then((next) => {
+          if (next) {
+            log(
+              `${this.label} failed over from "${failed.profile.name}" to "${next.profile.name}"`,
+              "queue",
+            );
+          }
+          return next;
+        })
+        .finally(() => {
+          this.switching = undefined;
+        });
+    }
+    return this.switching;
+  }
+
+  close(): void {
+    for (const provider of this.providers) provider.close();
+  }
+}
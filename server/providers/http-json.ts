@@ -0,0 +1,41 @@
+import type { SmtpProfile } from "@shared/schema";
+import { decryptSecret } from "../secrets";
+import { postJson } from "./http";
+import type { MailProvider } from "./types";
+
+/**
+ * Delivers through any HTTP API that accepts one message per JSON request:
+ *
+ *   { from: { name?, address }, replyTo?, to, cc, bcc, subject, html, text,
+ *     attachments: [{ filename, contentType, content (base64), cid? }],
+ *     headers: { [name]: value } }
+ *
+ * The API key is sent in `apiKeyHeader` (Authorization by default) exactly
+ * as stored, so include any scheme such as "Bearer ". Any 2xx answer counts
+ * as accepted.
+ */
+export function createHttpJsonProvider(profile: SmtpProfile): MailProvider {
+  const apiKey = decryptSecret(profile.encryptedPassword);
+  const headers: Record<string, string> = apiKey
+    ? { [profile.apiKeyHeader ?? "Authorization"]: apiKey }
+    : {};
+
+  return {
+    async verify() {},
+    async send(message) {
+      await postJson(
+        profile.apiUrl!,
+        headers,
+        {
+          ...message,
+          attachments: message.attachments.map((attachment) => ({
+            ...attachment,
+            content: attachment.content.toString("base64"),
+          })),
+        },
+        profile.timeouts.socket,
+      );
+    },
+    close() {},
+  };
+}
@@ -0,0 +1,74 @@
+import { DeliveryError } from "./types";
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+// Throttling and server-side trouble are worth another attempt; other 4xx
+// answers mean the request itself was refused.
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * POSTs a JSON body and returns the parsed JSON answer (or null). Failed
+ * requests throw a DeliveryError carrying the API's own error text.
+ */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): Promise<unknown> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    // Network errors and timeouts never reached the API
+    throw new DeliveryError(
+      `Could not reach ${new URL(url).host}: ${error instanceof Error ? error.message : error}`,
+      { transient: true, connection: true },
+    );
+  }
+
+  const text = await res.text();
+  let json: unknown = null;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON; the raw text is reported below if the request failed
+  }
+  if (!res.ok) {
+    throw new DeliveryError(
+      `HTTP ${res.status}: ${describeApiError(json) ?? (text.slice(0, 300) || res.statusText)}`,
+      {
+        transient: isTransientStatus(res.status),
+        // Gateway errors and outages say nothing about this message
+        connection: res.status >= 500,
+      },
+    );
+  }
+  return json;
+}
+
+// Pulls a readable message out of the usual error shapes
+function describeApiError(json: unknown): string | undefined {
+  if (!json || typeof json !== "object") return undefined;
+  const body = json as {
+    message?: unknown;
+    error?: { message?: unknown; details?: Array<{ message?: unknown }> } | string;
+  };
+  if (typeof body.error === "string") return body.error;
+  const detail = body.error?.details?.[0]?.message;
+  if (typeof detail === "string") return detail;
+  if (typeof body.error?.message === "string") return body.error.message;
+  if (typeof body.message === "string") return body.message;
+  return undefined;
+}
@@ -0,0 +1,53 @@
+import type { SmtpProfile } from "@shared/schema";
+import { createHttpJsonProvider } from "./http-json";
+import { createSmtpProvider } from "./smtp";
+import { createStubProvider, isStubProviderAvailable } from "./stub";
+import { createZeptoMailProvider } from "./zeptomail";
+import type { MailProvider } from "./types";
+
+export { DeliveryError } from "./types";
+export type { MailAddress, MailProvider, OutgoingAttachment, OutgoingMessage } from "./types";
+export { ProviderChain, type ActiveProvider } from "./failover";
+export { createCaptureProvider } from "./capture";
+export { isStubProviderAvailable, stubOutbox } from "./stub";
+export { ZEPTOMAIL_API_URL } from "./zeptomail";
+
+// Throws if the profile's secret cannot be decrypted
+export function createMailProvider(profile: SmtpProfile): MailProvider {
+  switch (profile.provider) {
+    case "smtp":
+      return createSmtpProvider(profile);
+    case "zeptomail":
+      return createZeptoMailProvider(profile);
+    case "http_json":
+      return createHttpJsonProvider(profile);
+    case "stub":
+      return createStubProvider();
+  }
+}
+
+type ProviderSettings = Pick<SmtpProfile, "provider" | "host" | "username"> & {
+  apiUrl?: string | null;
+  hasSecret: boolean;
+};
+
+// Settings a provider cannot work without, as a message for the admin
+export function missingProviderSettings(
+  settings: ProviderSettings,
+): string | undefined {
+  switch (settings.provider) {
+    case "smtp":
+      if (!settings.host) return "Host is required";
+      if (!settings.username) return "Username is required";
+      if (!settings.hasSecret) return "Password is required";
+      return undefined;
+    case "zeptomail":
+      return settings.hasSecret ? undefined : "A Send Mail token is required";
+    case "http_json":
+      return settings.apiUrl ? undefined : "API URL is required";
+    case "stub":
+      return isStubProviderAvailable()
+        ? undefined
+        : "The stub provider is only available in development and tests";
+  }
+}
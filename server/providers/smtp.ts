@@ -0,0 +1,34 @@
+import type { SendMailOptions } from "nodemailer";
+import type { SmtpProfile } from "@shared/schema";
+import { createSmtpTransport, toSmtpConfig } from "../mailer";
+import { classifySmtpError } from "../smtp-errors";
+import { DeliveryError, type MailProvider, type OutgoingMessage } from "./types";
+
+export function toMailOptions(message: OutgoingMessage): SendMailOptions {
+  return {
+    ...message,
+    from: message.from.name
+      ? { name: message.from.name, address: message.from.address }
+      : message.from.address,
+  };
+}
+
+export function createSmtpProvider(profile: SmtpProfile): MailProvider {
+  const transporter = createSmtpTransport(toSmtpConfig(profile));
+  return {
+    async verify() {
+      await transporter.verify();
+    },
+    async send(message) {
+      try {
+        await transporter.sendMail(toMailOptions(message));
+      } catch (error) {
+        const { message, ...failure } = classifySmtpError(error);
+        throw new DeliveryError(message, failure);
+      }
+    },
+    close() {
+      transporter.close();
+    },
+  };
+}
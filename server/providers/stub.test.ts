@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { missingProviderSettings } from "./index";
+import { createStubProvider, stubOutbox } from "./stub";
+import { DeliveryError, type OutgoingMessage } from "./types";
+
+const NODE_ENV = process.env.NODE_ENV;
+
+afterEach(() => {
+  process.env.NODE_ENV = NODE_ENV;
+  stubOutbox.length = 0;
+});
+
+function message(to: string): OutgoingMessage {
+  return {
+    from: { address: "sender@example.com" },
+    to,
+    cc: [],
+    bcc: [],
+    subject: "Hello",
+    html: "<p>Hello</p>",
+    text: "Hello",
+    attachments: [],
+    headers: {},
+  };
+}
+
+test("accepted messages land in the stub outbox", async () => {
+  process.env.NODE_ENV = "test";
+  const provider = createStubProvider();
+  await provider.verify();
+  await provider.send(message("someone@example.com"));
+
+  assert.equal(stubOutbox.length, 1);
+  assert.equal(stubOutbox[0].to, "someone@example.com");
+  assert.ok(stubOutbox[0].deliveredAt instanceof Date);
+});
+
+test("bounce and defer addresses fail like a mail server would", async () => {
+  process.env.NODE_ENV = "test";
+  const provider = createStubProvider();
+
+  await assert.rejects(provider.send(message("bounce@example.com")), (error) => {
+    assert.ok(error instanceof DeliveryError);
+    assert.equal(error.transient, false);
+    assert.equal(error.responseCode, 550);
+    assert.equal(error.command, "RCPT TO");
+    return true;
+  });
+  await assert.rejects(provider.send(message("defer-me@example.com")), (error) => {
+    assert.ok(error instanceof DeliveryError);
+    assert.equal(error.transient, true);
+    assert.equal(error.responseCode, 421);
+    return true;
+  });
+  assert.equal(stubOutbox.length, 0);
+});
+
+test("the stub is refused in production", () => {
+  process.env.NODE_ENV = "production";
+  assert.throws(() => createStubProvider(), /only available in development and tests/);
+  assert.equal(
+    missingProviderSettings({ provider: "stub", host: "", username: "", hasSecret: false }),
+    "The stub provider is only available in development and tests",
+  );
+
+  process.env.NODE_ENV = "development";
+  assert.equal(
+    missingProviderSettings({ provider: "stub", host: "", username: "", hasSecret: false }),
+    undefined,
+  );
+});
@@ -0,0 +1,49 @@
+import { DeliveryError, type MailProvider, type OutgoingMessage } from "./types";
+
+const STUB_OUTBOX_LIMIT = 500;
+
+// Most recent messages accepted by stub profiles, newest last
+export const stubOutbox: Array<OutgoingMessage & { deliveredAt: Date }> = [];
+
+// The stub would mark every recipient sent with nothing delivered, so it
+// only exists in development and tests
+export function isStubProviderAvailable(): boolean {
+  return process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
+}
+
+/**
+ * Accepts every message without sending it anywhere. Recipients whose local
+ * part contains "defer" or "bounce" fail transiently or permanently, so
+ * retries and failure handling can be exercised without a mail server.
+ */
+export function createStubProvider(): MailProvider {
+  if (!isStubProviderAvailable()) {
+    throw new Error("The stub provider is only available in development and tests");
+  }
+  return {
+    async verify() {},
+    async send(message) {
+      const localPart = message.to.split("@")[0].toLowerCase();
+      if (localPart.includes("bounce")) {
+        const reply = "550 Stub: mailbox does not exist";
+        throw new DeliveryError(reply, {
+          transient: false,
+          responseCode: 550,
+          response: reply,
+          command: "RCPT TO",
+        });
+      }
+      if (localPart.includes("defer")) {
+        const reply = "421 Stub: try again later";
+        throw new DeliveryError(reply, {
+          transient: true,
+          responseCode: 421,
+          response: reply,
+        });
+      }
+      stubOutbox.push({ ...message, deliveredAt: new Date() });
+      if (stubOutbox.length > STUB_OUTBOX_LIMIT) stubOutbox.shift();
+    },
+    close() {},
+  };
+}
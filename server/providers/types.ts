@@ -0,0 +1,68 @@
+export type MailAddress = { name?: string; address: string };
+
+export type OutgoingAttachment = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  // Set for images referenced from the HTML as cid:...
+  cid?: string;
+};
+
+// One fully rendered message for a single recipient
+export type OutgoingMessage = {
+  from: MailAddress;
+  replyTo?: string;
+  to: string;
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  html: string;
+  text: string;
+  attachments: OutgoingAttachment[];
+  // e.g. List-Unsubscribe
+  headers: Record<string, string>;
+};
+
+export interface MailProvider {
+  // Checks the account can be used without sending anything, where the
+  // provider allows it
+  verify(): Promise<void>;
+  // Throws a DeliveryError when the message was not accepted
+  send(message: OutgoingMessage): Promise<void>;
+  close(): void;
+}
+
+export type DeliveryFailure = {
+  // Worth another attempt later (throttling, timeouts, 4xx SMTP replies)
+  transient: boolean;
+  // The provider itself could not be reached or is down, as opposed to
+  // refusing this one message; the queue fails over to the next profile
+  connection?: boolean;
+  // SMTP reply code and text, when an SMTP server answered
+  responseCode?: number;
+  response?: string;
+  // SMTP command the reply refused, e.g. "MAIL FROM", "RCPT TO" or "DATA"
+  command?: string;
+};
+
+/**
+ * A rejected message. Transient failures are retried by the send queue;
+ * everything else is final.
+ */
+export class DeliveryError extends Error {
+  readonly transient: boolean;
+  readonly connection: boolean;
+  readonly responseCode?: number;
+  readonly response?: string;
+  readonly command?: string;
+
+  constructor(message: string, failure: DeliveryFailure) {
+    super(message);
+    this.name = "DeliveryError";
+    this.transient = failure.transient;
+    this.connection = failure.connection ?? false;
+    this.responseCode = failure.responseCode;
+    this.response = failure.response;
+    this.command = failure.command;
+  }
+}
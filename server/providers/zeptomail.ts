@@ -0,0 +1,70 @@
+import type { SmtpProfile } from "@shared/schema";
+import { decryptSecret } from "../secrets";
+import { postJson } from "./http";
+import type { MailProvider, OutgoingMessage } from "./types";
+
+export const ZEPTOMAIL_API_URL = "https://api.zeptomail.in/v1.1/email";
+
+const toRecipients = (addresses: string[]) =>
+  addresses.map((address) => ({ email_address: { address } }));
+
+// Request body for ZeptoMail's "send single email" API
+function toZeptoMailBody(message: OutgoingMessage) {
+  const files = message.attachments.filter((attachment) => !attachment.cid);
+  const inline = message.attachments.filter((attachment) => attachment.cid);
+  return {
+    from: message.from,
+    to: toRecipients([message.to]),
+    ...(message.cc.length > 0 ? { cc: toRecipients(message.cc) } : {}),
+    ...(message.bcc.length > 0 ? { bcc: toRecipients(message.bcc) } : {}),
+    ...(message.replyTo ? { reply_to: [{ address: message.replyTo }] } : {}),
+    subject: message.subject,
+    htmlbody: message.html,
+    textbody: message.text,
+    ...(files.length > 0
+      ? {
+          attachments: files.map((file) => ({
+            name: file.filename,
+            mime_type: file.contentType,
+            content: file.content.toString("base64"),
+          })),
+        }
+      : {}),
+    ...(Object.keys(message.headers).length > 0
+      ? { mime_headers: message.headers }
+      : {}),
+    ...(inline.length > 0
+      ? {
+          inline_images: inline.map((image) => ({
+            cid: image.cid,
+            mime_type: image.contentType,
+            content: image.content.toString("base64"),
+          })),
+        }
+      : {}),
+  };
+}
+
+export function createZeptoMailProvider(profile: SmtpProfile): MailProvider {
+  const token = decryptSecret(profile.encryptedPassword).trim();
+  // The console shows the token with its scheme; accept it either way
+  const authorization = token.startsWith("Zoho-enczapikey")
+    ? token
+    : `Zoho-enczapikey ${token}`;
+  const url = profile.apiUrl ?? ZEPTOMAIL_API_URL;
+
+  return {
+    // The API has no side-effect-free credential check; a bad token shows
+    // up as a permanent failure on the first message.
+    async verify() {},
+    async send(message) {
+      await postJson(
+        url,
+        { Authorization: authorization },
+        toZeptoMailBody(message),
+        profile.timeouts.socket,
+      );
+    },
+    close() {},
+  };
+}
@@ -0,0 +1,478 @@
+import { EventEmitter } from "events";
+import type {
+  Campaign,
+  CampaignStatus,
+  CampaignEvent,
+  EmailStatus,
+  EmailStatusRecord,
+  ProgressEvent,
+  SendEmailResponse,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { prepareContent, renderMessage } from "./compose";
+import { findSkippedRecipients } from "./preferences";
+import {
+  DeliveryError,
+  ProviderChain,
+  createCaptureProvider,
+  type ActiveProvider,
+} from "./providers";
+import { RateLimiter, getRateLimiter } from "./rate-limiter";
+import { log } from "./vite";
+
+// Dry runs send nothing, so they do not spend the profile's sending budget
+const UNLIMITED = new RateLimiter({});
+
+// Minimum gap between two progress (ETA) events for the same campaign
+const PROGRESS_INTERVAL_MS = 2000;
+
+// Transient SMTP failures are retried up to this many attempts in total,
+// waiting 30s, 1m, 2m, ... (capped, with jitter) between attempts.
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+function retryDelay(attempts: number): number {
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+export function toEmailStatus(record: EmailStatusRecord): EmailStatus {
+  return {
+    email: record.email,
+    status: record.status,
+    ...(record.error ? { error: record.error } : {}),
+    ...(record.attempts > 0 ? { attempts: record.attempts } : {}),
+    ...(record.smtpCode !== null ? { smtpCode: record.smtpCode } : {}),
+    ...(record.smtpResponse ? { smtpResponse: record.smtpResponse } : {}),
+    ...(record.nextAttemptAt
+      ? { nextAttemptAt: record.nextAttemptAt.toISOString() }
+      : {}),
+    ...(record.deliveredVia ? { deliveredVia: record.deliveredVia } : {}),
+  };
+}
+
+export function summarizeCampaign(
+  campaignId: string,
+  records: EmailStatusRecord[],
+): SendEmailResponse {
+  const results = records.map(toEmailStatus);
+  return {
+    campaignId,
+    results,
+    totalSent: results.filter((r) => r.status === "sent").length,
+    totalFailed: results.filter((r) => r.status === "failed").length,
+    totalSuppressed: results.filter((r) => r.status === "suppressed").length,
+  };
+}
+
+function nextRetryAt(records: EmailStatusRecord[]): number {
+  return Math.min(
+    ...records
+      .filter((record) => record.status === "retrying")
+      .map((record) => record.nextAttemptAt?.getTime() ?? 0),
+  );
+}
+
+function estimateCompletion(
+  startedAt: number,
+  processed: number,
+  remaining: number,
+  limiter: RateLimiter,
+): string | null {
+  if (remaining === 0) return new Date().toISOString();
+  const limited = limiter.waitTime(remaining);
+  if (processed === 0 && limited === 0) return null;
+
+  // Whichever is slower: the pace so far or what the rate limits allow.
+  const observed =
+    processed > 0 ? ((Date.now() - startedAt) / processed) * remaining : 0;
+  return new Date(Date.now() + Math.max(observed, limited)).toISOString();
+}
+
+// Runs `task` over `items` with at most `limit` in flight, taking items in
+// order so earlier recipients are always started first. After a failure no
+// new items are started; the first error is rethrown once the others settle.
+async function runConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (!failure && next < items.length) {
+      try {
+        await task(items[next++]);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  });
+  await Promise.all(lanes);
+  if (failure) throw failure.error;
+}
+
+function toDeliveryError(error: unknown): DeliveryError {
+  return error instanceof DeliveryError
+    ? error
+    : new DeliveryError(error instanceof Error ? error.message : String(error), {
+        transient: false,
+      });
+}
+
+// The mailbox does not exist, so mailing it again would only hurt the
+// sender's reputation. Only a refused RCPT TO is about the recipient; a
+// refused MAIL FROM or DATA is about the sender or the content and would
+// otherwise suppress the whole campaign's audience. Enhanced status codes
+// (RFC 3463) settle it when the server sends one: 5.1.x is a bad address,
+// 5.7.x a policy block and so on.
+function isHardBounce(failure: DeliveryError): boolean {
+  if (
+    failure.transient ||
+    failure.connection ||
+    failure.responseCode === undefined ||
+    failure.command !== "RCPT TO"
+  ) {
+    return false;
+  }
+  const enhanced = failure.response?.match(/\b5\.(\d{1,3})\.\d{1,3}\b/);
+  if (enhanced) return enhanced[1] === "1";
+  return [550, 551, 553].includes(failure.responseCode);
+}
+
+/**
+ * Delivers queued campaigns one at a time, independently of any HTTP
+ * request; within a campaign up to the profile's `pool.concurrency`
+ * recipients are in flight at once. When a profile stops answering, the
+ * campaign carries on with its next fallback profile. All state lives in
+ * storage, so a restart picks up where the previous process left off; HTTP
+ * clients only observe progress through `subscribe`.
+ */
+class SendQueue {
+  private events = new EventEmitter();
+  // Last pending write per campaign, so events are stored and broadcast in
+  // the order they were emitted even while several deliveries run at once
+  private emitTails = new Map<string, Promise<void>>();
+  private draining = false;
+  private rerun = false;
+  private wakeTimer?: NodeJS.Timeout;
+
+  constructor() {
+    // one listener per open progress stream
+    this.events.setMaxListeners(0);
+  }
+
+  subscribe(
+    campaignId: string,
+    listener: (event: CampaignEvent) => void,
+  ): () => void {
+    this.events.on(campaignId, listener);
+    return () => {
+      this.events.off(campaignId, listener);
+    };
+  }
+
+  async start(): Promise<void> {
+    // A recipient still marked "sending" was interrupted mid-delivery; it is
+    // retried, which may deliver that one message twice.
+    const requeued = await storage.requeueInterruptedEmailStatuses();
+    if (requeued > 0) {
+      log(`requeued ${requeued} interrupted recipient(s)`, "queue");
+    }
+    this.kick();
+  }
+
+  kick(): void {
+    if (this.draining) {
+      this.rerun = true;
+      return;
+    }
+    void this.drain();
+  }
+
+  // Only while the campaign is still in one of `from`; undefined once it
+  // has moved on, e.g. the worker has started sending it.
+  async cancel(
+    campaignId: string,
+    from: CampaignStatus[],
+  ): Promise<Campaign | undefined> {
+    const campaign = await storage.updateCampaignIfStatus(campaignId, from, {
+      status: "cancelled",
+    });
+    if (campaign) {
+      await this.emit(campaignId, {
+        type: "error",
+        message: "Campaign was cancelled",
+      });
+    }
+    return campaign;
+  }
+
+  private emit(campaignId: string, event: ProgressEvent): Promise<void> {
+    const turn = (this.emitTails.get(campaignId) ?? Promise.resolve()).then(
+      async () => {
+        const record = await storage.appendCampaignEvent(campaignId, event);
+        this.events.emit(campaignId, record);
+      },
+    );
+    const tail = turn.catch(() => {});
+    this.emitTails.set(campaignId, tail);
+    void tail.then(() => {
+      if (this.emitTails.get(campaignId) === tail) {
+        this.emitTails.delete(campaignId);
+      }
+    });
+    return turn;
+  }
+
+  // Re-runs the worker when the earliest waiting retry becomes due.
+  private scheduleWake(at: number | undefined) {
+    clearTimeout(this.wakeTimer);
+    this.wakeTimer =
+      at === undefined
+        ? undefined
+        : setTimeout(() => this.kick(), Math.max(0, at - Date.now()));
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      do {
+        this.rerun = false;
+        let nextRetryAt: number | undefined;
+        const active = await storage.getCampaignsByStatus(["sending", "queued"]);
+        for (const campaign of active) {
+          const retryAt = await this.processCampaign(campaign);
+          if (retryAt !== undefined) {
+            nextRetryAt = Math.min(nextRetryAt ?? retryAt, retryAt);
+          }
+        }
+        this.scheduleWake(nextRetryAt);
+      } while (this.rerun);
+    } catch (error) {
+      console.error("Send queue stopped:", error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async updateStatus(campaignId: string, status: EmailStatus) {
+    await storage.updateEmailStatus(campaignId, status);
+    await this.emit(campaignId, status);
+  }
+
+  // Gives up on every recipient still waiting and fails the campaign.
+  private async failCampaign(
+    campaignId: string,
+    records: EmailStatusRecord[],
+    message: string,
+  ) {
+    for (const record of records) {
+      if (record.status === "pending" || record.status === "retrying") {
+        await this.updateStatus(campaignId, {
+          email: record.email,
+          status: "failed",
+          error: message,
+        });
+      }
+    }
+    await storage.updateCampaign(campaignId, { status: "failed" });
+    await this.emit(campaignId, { type: "error", message });
+  }
+
+  /**
+   * Sends whatever is due now: pending recipients and retries whose backoff
+   * has elapsed. Returns when the next retry is due while some recipients
+   * are still waiting, or undefined once the campaign has finished.
+   */
+  private async processCampaign(
+    campaign: Campaign,
+  ): Promise<number | undefined> {
+    const records = await storage.getEmailStatuses(campaign.id);
+    const due = records.filter(
+      (record) =>
+        record.status === "pending" ||
+        (record.status === "retrying" &&
+          (record.nextAttemptAt?.getTime() ?? 0) <= Date.now()),
+    );
+    if (due.length === 0 && records.some((r) => r.status === "retrying")) {
+      return nextRetryAt(records);
+    }
+
+    // Claimed in one write, so a campaign cancelled since `drain` listed it
+    // is left alone
+    const claimed = await storage.updateCampaignIfStatus(
+      campaign.id,
+      ["queued", "sending"],
+      { status: "sending" },
+    );
+    if (!claimed) return undefined;
+    const profile = await storage.getSmtpProfile(campaign.smtpProfileId);
+    if (!profile) {
+      await this.failCampaign(
+        campaign.id,
+        records,
+        "The campaign's SMTP profile no longer exists.",
+      );
+      return undefined;
+    }
+
+    // Fallbacks deleted since submission are skipped
+    const fallbacks = await Promise.all(
+      campaign.fallbackProfileIds.map((id) => storage.getSmtpProfile(id)),
+    );
+    const label = `campaign ${campaign.id}`;
+    const chain = campaign.dryRun
+      ? new ProviderChain([profile], {
+          label,
+          createProvider: () => createCaptureProvider(campaign.id),
+        })
+      : new ProviderChain(
+          [profile, ...fallbacks.filter((fallback) => fallback !== undefined)],
+          { label },
+        );
+
+    try {
+      const initial = await chain.connect();
+      if (!initial) {
+        await this.failCampaign(
+          campaign.id,
+          records,
+          `No SMTP profile could be reached. ${chain.failures.join("; ")}`,
+        );
+        return undefined;
+      }
+      if (initial.profile.id !== profile.id) {
+        log(`campaign ${campaign.id} is sending via fallback "${initial.profile.name}"`, "queue");
+      }
+
+      const prepared = await prepareContent(
+        campaign,
+        await storage.getCampaignAttachments(campaign.id),
+      );
+      const limiterFor = ({ profile }: ActiveProvider) =>
+        campaign.dryRun ? UNLIMITED : getRateLimiter(profile.id, profile.rateLimit);
+
+      const startedAt = Date.now();
+      let processed = 0;
+      let finished = records.filter(
+        (record) =>
+          record.status === "sent" ||
+          record.status === "failed" ||
+          record.status === "suppressed",
+      ).length;
+      let lastProgressAt = 0;
+      const reportProgress = async (force = false) => {
+        if (!force && Date.now() - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+        lastProgressAt = Date.now();
+        await this.emit(campaign.id, {
+          type: "progress",
+          processed: finished,
+          total: records.length,
+          estimatedCompletionAt: estimateCompletion(
+            startedAt,
+            processed,
+            due.length - processed,
+            limiterFor(chain.active ?? initial),
+          ),
+        });
+      };
+      await reportProgress(true);
+
+      await runConcurrently(due, initial.profile.pool.concurrency, async (record) => {
+        const { email } = record;
+        // Checked at the last moment, so an unsubscribe, opt-out or bounce from
+        // earlier in this run is honoured too
+        const skipped = await findSkippedRecipients([email], campaign.category);
+        const skipReason = skipped.get(email.toLowerCase());
+        if (skipReason) {
+          await this.updateStatus(campaign.id, {
+            email,
+            status: "suppressed",
+            error: skipReason,
+          });
+          finished++;
+          processed++;
+          await reportProgress();
+          return;
+        }
+        const attempts = record.attempts + 1;
+        await this.updateStatus(campaign.id, { email, status: "sending", attempts });
+        try {
+          const message = renderMessage(
+            prepared,
+            { email, name: record.name ?? undefined, fields: record.fields },
+            { email, campaignId: campaign.id },
+          );
+          // Fallbacks take the message without using up an attempt
+          const deliveredBy = await chain.send(message, (active) =>
+            limiterFor(active).acquire(),
+          );
+          await this.updateStatus(campaign.id, {
+            email,
+            status: "sent",
+            attempts,
+            deliveredVia: deliveredBy.profile.name,
+          });
+          finished++;
+        } catch (error) {
+          console.error(`Failed to send email to ${email}:`, error);
+          const failure = toDeliveryError(error);
+          const retry = failure.transient && attempts < MAX_ATTEMPTS;
+          await this.updateStatus(campaign.id, {
+            email,
+            status: retry ? "retrying" : "failed",
+            error: failure.message,
+            attempts,
+            smtpCode: failure.responseCode,
+            smtpResponse: failure.response,
+            nextAttemptAt: retry
+              ? new Date(Date.now() + retryDelay(attempts)).toISOString()
+              : undefined,
+          });
+          if (!retry) finished++;
+          if (!campaign.dryRun && isHardBounce(failure)) {
+            await storage.addSuppressions([
+              {
+                email,
+                reason: "hard_bounce",
+                detail: failure.response ?? failure.message,
+                campaignId: campaign.id,
+              },
+            ]);
+          }
+        }
+        processed++;
+        await reportProgress();
+      });
+
+      const final = await storage.getEmailStatuses(campaign.id);
+      if (final.some((record) => record.status === "retrying")) {
+        return nextRetryAt(final);
+      }
+
+      await storage.updateCampaign(campaign.id, { status: "completed" });
+      await this.emit(campaign.id, {
+        type: "complete",
+        data: summarizeCampaign(campaign.id, final),
+      });
+      return undefined;
+    } catch (error) {
+      console.error(`Campaign ${campaign.id} failed:`, error);
+      await storage.updateCampaign(campaign.id, { status: "failed" });
+      await this.emit(campaign.id, {
+        type: "error",
+        message: error instanceof Error ? error.message : "Failed to send emails",
+      });
+      return undefined;
+    } finally {
+      chain.close();
+    }
+  }
+}
+
+export const sendQueue = new SendQueue();
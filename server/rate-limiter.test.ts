@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, mock, test } from "node:test";
+import { RateLimiter, getRateLimiter } from "./rate-limiter";
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["Date"], now: 0 });
+});
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+test("a full window can go out at once, then the bucket refills evenly", () => {
+  const limiter = new RateLimiter({ perSecond: 5 });
+  assert.equal(limiter.waitTime(5), 0);
+  // The sixth message needs one more token, a fifth of a second away
+  assert.equal(limiter.waitTime(6), 200);
+  assert.equal(limiter.waitTime(10), 1000);
+});
+
+test("the slowest window decides", () => {
+  const limiter = new RateLimiter({ perSecond: 10, perMinute: 2 });
+  assert.equal(limiter.waitTime(2), 0);
+  assert.equal(limiter.waitTime(3), 30_000);
+});
+
+test("no limits never wait", async () => {
+  const limiter = new RateLimiter({});
+  assert.equal(limiter.waitTime(1_000_000), 0);
+  await limiter.acquire();
+});
+
+test("acquire spends tokens and waits for them to come back", async () => {
+  const limiter = new RateLimiter({ perSecond: 2 });
+  await limiter.acquire();
+  await limiter.acquire();
+  assert.equal(limiter.waitTime(1), 500);
+
+  mock.timers.tick(250);
+  assert.equal(limiter.waitTime(1), 250);
+  mock.timers.tick(250);
+  assert.equal(limiter.waitTime(1), 0);
+});
+
+test("callers of acquire are served in order", async () => {
+  // Real timers: acquire sleeps with setTimeout until a token is back
+  mock.timers.reset();
+  const limiter = new RateLimiter({ perSecond: 20 });
+  const order: number[] = [];
+  const startedAt = Date.now();
+  await Promise.all(
+    Array.from({ length: 22 }, (_, index) =>
+      limiter.acquire().then(() => {
+        order.push(index);
+      }),
+    ),
+  );
+  assert.deepEqual(order, Array.from({ length: 22 }, (_, index) => index));
+  // Two messages beyond the burst, 50ms apart
+  assert.ok(Date.now() - startedAt >= 90);
+});
+
+test("profiles share a limiter until their limits change", () => {
+  const limiter = getRateLimiter("profile-a", { perSecond: 1 });
+  assert.equal(getRateLimiter("profile-a", { perSecond: 1 }), limiter);
+  assert.notEqual(getRateLimiter("profile-b", { perSecond: 1 }), limiter);
+  assert.notEqual(getRateLimiter("profile-a", { perSecond: 2 }), limiter);
+});
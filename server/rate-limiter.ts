@@ -0,0 +1,89 @@
+import type { RateLimit } from "@shared/schema";
+
+const WINDOWS: Array<[keyof RateLimit, number]> = [
+  ["perSecond", 1000],
+  ["perMinute", 60 * 1000],
+  ["perHour", 60 * 60 * 1000],
+];
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  // tokens added per millisecond
+  private readonly rate: number;
+
+  constructor(private readonly capacity: number, windowMs: number) {
+    this.tokens = capacity;
+    this.rate = capacity / windowMs;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.rate,
+    );
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until `count` tokens will have been available.
+  waitTime(count = 1): number {
+    this.refill();
+    return count <= this.tokens ? 0 : (count - this.tokens) / this.rate;
+  }
+
+  take() {
+    this.refill();
+    this.tokens -= 1;
+  }
+}
+
+/**
+ * Paces deliveries to stay within every configured window at once
+ * (e.g. 10/second and 5,000/hour). Each window is a token bucket holding a
+ * full window's worth of messages, so short bursts are allowed as long as
+ * the window's total is respected.
+ */
+export class RateLimiter {
+  private buckets: TokenBucket[];
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(limits: RateLimit) {
+    this.buckets = WINDOWS.flatMap(([key, windowMs]) => {
+      const limit = limits[key];
+      return limit ? [new TokenBucket(limit, windowMs)] : [];
+    });
+  }
+
+  // Resolves once a message may be sent; callers are served in order.
+  acquire(): Promise<void> {
+    const turn = this.tail.then(async () => {
+      let wait: number;
+      while ((wait = this.waitTime(1)) > 0) {
+        await new Promise((resolve) => setTimeout(resolve, Math.ceil(wait)));
+      }
+      this.buckets.forEach((bucket) => bucket.take());
+    });
+    this.tail = turn;
+    return turn;
+  }
+
+  // Lower bound on how long sending `count` more messages will take.
+  waitTime(count: number): number {
+    return Math.max(0, ...this.buckets.map((bucket) => bucket.waitTime(count)));
+  }
+}
+
+const limiters = new Map<string, { limits: string; limiter: RateLimiter }>();
+
+// Campaigns sharing an SMTP account share its limiter, so their combined
+// throughput stays within the account's limits.
+export function getRateLimiter(key: string, limits: RateLimit): RateLimiter {
+  const serialized = JSON.stringify(limits);
+  const existing = limiters.get(key);
+  if (existing && existing.limits === serialized) return existing.limiter;
+
+  const limiter = new RateLimiter(limits);
+  limiters.set(key, { limits: serialized, limiter });
+  return limiter;
+}
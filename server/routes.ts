@@ -1,9 +1,22 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import nodemailer from "nodemailer";
 import { z } from "zod";
-import { smtpConfigSchema, sendEmailRequestSchema, type EmailStatus, type SendEmailResponse } from "@shared/schema";
+import { sendEmailRequestSchema, insertTemplateSchema, smtpProfileInputSchema, updateSmtpProfileSchema, createUserSchema, updateUserSchema, rescheduleCampaignSchema, campaignStatusSchema, reviewDecisionSchema, isTerminalEvent, type AuditAction, type Campaign, type CampaignReview, type CampaignStatus, type CampaignDetail, type CampaignEvent, type ProgressEvent, type PublicSmtpProfile, type SmtpProfile, senderIdentityInputSchema, updateSenderIdentitySchema, type PublicSenderIdentity, type SenderIdentity, type CapturedMessageSummary, addSuppressionsSchema, checkSuppressionsSchema, type SuppressedRecipient, type SenderIdentityInput, type InsertSenderIdentity } from "@shared/schema";
+import { RECIPIENT_LINK_PLACEHOLDERS, extractPlaceholders, findMissingPlaceholders, getMergeVariables } from "@shared/merge";
+import { asyncHandler } from "./async-handler";
+import { storage } from "./storage";
+import { DeliveryError, ProviderChain, createMailProvider, missingProviderSettings } from "./providers";
+import { contentHash, type CampaignContent } from "./compose";
+import { sendTestMessages } from "./test-sends";
+import { assertPublicBaseUrl, getPublicBaseUrl, setupUnsubscribe } from "./unsubscribe";
+import { findSkippedRecipients, setupPreferences } from "./preferences";
+import { assertSecretKey, decryptSecret, encryptSecret } from "./secrets";
+import { sendQueue, summarizeCampaign } from "./queue";
+import { startScheduler } from "./scheduler";
+import { setupDevMailbox } from "./dev-mailbox";
+import { hashPassword, setupAuth, toPublicUser } from "./auth";
+import { approvalDenial, getSendPolicy, requireRole, requiresApproval } from "./permissions";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -12,26 +25,175 @@ const upload = multer({
   },
 });
 
+function toPublicSmtpProfile({ encryptedPassword: _password, ...profile }: SmtpProfile): PublicSmtpProfile {
+  return profile;
+}
+
+function toPublicSenderIdentity({ logoContent, ...identity }: SenderIdentity): PublicSenderIdentity {
+  return { ...identity, hasLogo: logoContent !== null };
+}
+
+// Maps the API's logo field onto the two stored columns
+function toSenderIdentityColumns({ logo, ...input }: Partial<SenderIdentityInput>): Partial<InsertSenderIdentity> {
+  if (logo === undefined) return input;
+  return {
+    ...input,
+    logoContentType: logo?.contentType ?? null,
+    logoContent: logo?.content ?? null,
+  };
+}
+
+async function toCampaignDetail(campaign: Campaign): Promise<CampaignDetail> {
+  return {
+    ...campaign,
+    statuses: await storage.getEmailStatuses(campaign.id),
+  };
+}
+
+// Statuses a campaign can still be revised or cancelled from before any
+// mail has gone out
+const UNSENT_STATUSES: CampaignStatus[] = ["draft", "pending_approval", "approved", "scheduled", "queued"];
+const REVISABLE_STATUSES: CampaignStatus[] = ["draft", "pending_approval", "approved"];
+
+function recordAudit(req: Request, campaignId: string, action: AuditAction, comment?: string) {
+  return storage.appendAuditEntry({
+    campaignId,
+    action,
+    userId: req.user!.id,
+    username: req.user!.username,
+    comment,
+  });
+}
+
+// Where an approved or directly sent campaign goes next
+function dispatchStatus(campaign: { scheduledAt: Date | null }): CampaignStatus {
+  return campaign.scheduledAt && campaign.scheduledAt.getTime() > Date.now()
+    ? "scheduled"
+    : "queued";
+}
+
+// Follows the revision chain back to the newest campaign that was approved.
+async function findPreviousApproved(campaign: Campaign): Promise<Campaign | undefined> {
+  const seen = new Set([campaign.id]);
+  let id = campaign.revisionOf;
+  while (id && !seen.has(id)) {
+    seen.add(id);
+    const previous = await storage.getCampaign(id);
+    if (!previous || previous.approvedAt) return previous;
+    id = previous.revisionOf;
+  }
+  return undefined;
+}
+
+// Streams a campaign's progress as SSE. The stream is only a view over the
+// send queue's event log: events after Last-Event-ID are replayed first, then
+// live updates follow, and disconnecting has no effect on delivery.
+async function streamCampaignEvents(req: Request, res: Response, campaignId: string) {
+  const lastEventId =
+    parseInt(req.header("Last-Event-ID") ?? String(req.query.lastEventId ?? ""), 10) || 0;
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+  res.write("retry: 3000\n\n");
+
+  let lastSentId = lastEventId;
+  let finished = false;
+  let replaying = true;
+  const buffered: CampaignEvent[] = [];
+
+  const writeEvent = (event: ProgressEvent, id?: number) => {
+    if (finished) return;
+    res.write(`${id !== undefined ? `id: ${id}\n` : ""}data: ${JSON.stringify(event)}\n\n`);
+    if (isTerminalEvent(event)) {
+      finished = true;
+      cleanup();
+      res.end();
+    }
+  };
+  const write = (record: CampaignEvent) => {
+    if (record.id <= lastSentId) return;
+    lastSentId = record.id;
+    writeEvent(record.event, record.id);
+  };
+
+  const unsubscribe = sendQueue.subscribe(campaignId, (record) => {
+    if (replaying) buffered.push(record);
+    else write(record);
+  });
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+  const cleanup = () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+  };
+  res.on("close", cleanup);
+
+  // Read the log before the status: a campaign that finishes in between
+  // then has its terminal event waiting in the buffer.
+  const history = await storage.getCampaignEvents(campaignId, lastEventId);
+  const campaign = await storage.getCampaign(campaignId);
+  const active =
+    campaign?.status === "scheduled" ||
+    campaign?.status === "queued" ||
+    campaign?.status === "sending";
+
+  history.forEach((record, index) => {
+    // A finished campaign can be picked up again (e.g. resumed after a
+    // restart), so only the latest terminal event may end the stream.
+    if (isTerminalEvent(record.event) && (active || index < history.length - 1)) {
+      lastSentId = record.id;
+      return;
+    }
+    write(record);
+  });
+  replaying = false;
+  buffered.forEach(write);
+
+  if (!active && !finished) {
+    writeEvent({
+      type: "complete",
+      data: summarizeCampaign(campaignId, await storage.getEmailStatuses(campaignId)),
+    });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.post("/api/send-emails", upload.array("attachments", 10), async (req, res) => {
-    let sseStarted = false;
-    
+  assertSecretKey();
+  assertPublicBaseUrl();
+  // Unsubscribe links are public, so they come before the session middleware
+  setupUnsubscribe(app);
+  setupPreferences(app);
+  // Login routes first; every /api route registered after this needs a session
+  setupAuth(app);
+
+  app.post("/api/send-emails", upload.array("attachments", 10), asyncHandler(async (req, res) => {
     try {
       const {
-        smtpConfig: smtpConfigStr,
+        smtpProfileId,
+        senderIdentityId,
+        fallbackProfileIds: fallbackProfileIdsStr,
         recipients: recipientsStr,
         subject,
         htmlBody,
         textBody,
+        category,
         cc: ccStr,
         bcc: bccStr,
+        scheduledAt,
+        timeZone,
+        revisionOf,
+        draftId,
+        dryRun,
+        testSend: testSendStr,
       } = req.body;
 
-      let smtpConfig, recipients, cc, bcc;
+      let recipients, cc, bcc, fallbackProfileIds, testSend;
       
       try {
-        smtpConfig = JSON.parse(smtpConfigStr);
         recipients = JSON.parse(recipientsStr);
+        testSend = testSendStr ? JSON.parse(testSendStr) : undefined;
+        fallbackProfileIds = fallbackProfileIdsStr ? JSON.parse(fallbackProfileIdsStr) : undefined;
         cc = ccStr ? JSON.parse(ccStr) : undefined;
         bcc = bccStr ? JSON.parse(bccStr) : undefined;
       } catch (parseError) {
@@ -39,13 +201,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const requestData = {
-        smtpConfig,
+        smtpProfileId,
+        senderIdentityId,
+        fallbackProfileIds,
         recipients,
         subject,
         htmlBody,
         textBody,
+        category,
         cc,
         bcc,
+        scheduledAt: scheduledAt || undefined,
+        timeZone: timeZone || undefined,
+        revisionOf: revisionOf || undefined,
+        draftId: draftId || undefined,
+        dryRun: dryRun === "true",
+        testSend,
       };
 
       const validationResult = sendEmailRequestSchema.safeParse(requestData);
@@ -57,7 +228,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const validatedData = validationResult.data;
+      if (validationResult.data.dryRun && validationResult.data.testSend) {
+        return res.status(400).json({ message: "Choose either a dry run or a test send" });
+      }
+
+      // A dry run goes straight to the worker: nothing is sent, so there is
+      // nothing to approve, schedule or supersede
+      const validatedData = validationResult.data.dryRun
+        ? {
+            ...validationResult.data,
+            scheduledAt: undefined,
+            timeZone: undefined,
+            revisionOf: undefined,
+          }
+        : validationResult.data;
+
+      const revised = validatedData.revisionOf
+        ? await storage.getCampaign(validatedData.revisionOf)
+        : undefined;
+      if (validatedData.revisionOf && !revised) {
+        return res.status(404).json({ message: "Campaign being revised was not found" });
+      }
+      if (revised && !REVISABLE_STATUSES.includes(revised.status)) {
+        return res.status(409).json({
+          message: `A ${revised.status} campaign can no longer be revised`,
+        });
+      }
+
+      if (validatedData.scheduledAt) {
+        if (!validatedData.timeZone) {
+          return res.status(400).json({
+            message: "A time zone is required for scheduled campaigns",
+          });
+        }
+        if (validatedData.scheduledAt.getTime() <= Date.now()) {
+          return res.status(400).json({
+            message: "Scheduled time must be in the future",
+          });
+        }
+      }
+
+      const profile = await storage.getSmtpProfile(validatedData.smtpProfileId);
+      if (!profile) {
+        return res.status(400).json({ message: "SMTP profile not found" });
+      }
+      const identity = await storage.getSenderIdentity(validatedData.senderIdentityId);
+      if (!identity) {
+        return res.status(400).json({ message: "Sender identity not found" });
+      }
+      if (!identity.smtpProfileIds.includes(profile.id)) {
+        return res.status(400).json({
+          message: `"${identity.name}" is not allowed to send through "${profile.name}"`,
+        });
+      }
+      if (
+        new Set([profile.id, ...validatedData.fallbackProfileIds]).size !==
+        validatedData.fallbackProfileIds.length + 1
+      ) {
+        return res.status(400).json({
+          message: "Each fallback must be a different profile from the primary and the other fallbacks",
+        });
+      }
+      const fallbacks = [];
+      for (const id of validatedData.fallbackProfileIds) {
+        const fallback = await storage.getSmtpProfile(id);
+        if (!fallback) {
+          return res.status(400).json({ message: "Fallback SMTP profile not found" });
+        }
+        if (!identity.smtpProfileIds.includes(fallback.id)) {
+          return res.status(400).json({
+            message: `"${identity.name}" is not allowed to send through "${fallback.name}"`,
+          });
+        }
+        fallbacks.push(fallback);
+      }
+
+      const templates = [validatedData.subject, validatedData.htmlBody];
+      if (validatedData.textBody) templates.push(validatedData.textBody);
+      if (identity.signatureHtml) templates.push(identity.signatureHtml);
+      // Every other placeholder comes from the recipient's data
+      const linkPlaceholder = RECIPIENT_LINK_PLACEHOLDERS.find((placeholder) =>
+        templates.some((template) => extractPlaceholders(template).includes(placeholder)),
+      );
+      if (linkPlaceholder && getPublicBaseUrl() === undefined) {
+        return res.status(400).json({
+          message: `PUBLIC_BASE_URL must be set on the server to use {{${linkPlaceholder}}}`,
+        });
+      }
+      const incomplete = validatedData.recipients
+        .map((recipient) => ({
+          email: recipient.email,
+          missing: findMissingPlaceholders(templates, {
+            ...getMergeVariables(recipient),
+            ...Object.fromEntries(
+              RECIPIENT_LINK_PLACEHOLDERS.map((placeholder) => [placeholder, ""]),
+            ),
+          }),
+        }))
+        .filter((entry) => entry.missing.length > 0);
+
+      if (incomplete.length > 0) {
+        return res.status(400).json({
+          message: `${incomplete.length} recipient(s) have no value for the placeholders used, e.g. ${incomplete
+            .slice(0, 3)
+            .map((entry) => `${entry.email} (${entry.missing.join(", ")})`)
+            .join("; ")}`,
+          errors: incomplete,
+        });
+      }
 
       const allowedFileTypes = [
         'application/pdf',
@@ -72,7 +350,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'text/csv',
       ];
 
-      const attachments: Array<{ filename: string; content: Buffer }> = [];
+      const attachments: Array<{ filename: string; content: Buffer; contentType: string }> = [];
       
       if (req.files) {
         for (const file of req.files as Express.Multer.File[]) {
@@ -84,108 +362,737 @@ export async function registerRoutes(app: Express): Promise<Server> {
           attachments.push({
             filename: file.originalname,
             content: file.buffer,
+            contentType: file.mimetype,
           });
         }
       }
 
-      const transporter = nodemailer.createTransport({
-        host: validatedData.smtpConfig.host,
-        port: validatedData.smtpConfig.port,
-        secure: false,
-        auth: {
-          user: validatedData.smtpConfig.username,
-          pass: validatedData.smtpConfig.password,
-        },
-      });
-
-      try {
-        await transporter.verify();
-      } catch (error) {
-        console.error("SMTP verification failed:", error);
-        return res.status(401).json({ 
-          message: "SMTP authentication failed. Please check your credentials." 
-        });
-      }
-
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      sseStarted = true;
-
-      const results: EmailStatus[] = [];
-      let totalSent = 0;
-      let totalFailed = 0;
+      const content: CampaignContent = {
+        subject: validatedData.subject,
+        htmlBody: validatedData.htmlBody,
+        textBody: validatedData.textBody ?? null,
+        cc: validatedData.cc ?? [],
+        bcc: validatedData.bcc ?? [],
+        senderIdentityId: identity.id,
+        fromName: identity.fromName,
+        fromEmail: identity.fromEmail,
+        replyTo: identity.replyTo,
+        signatureHtml: identity.signatureHtml,
+      };
+      const hash = contentHash(content, attachments);
 
-      for (const recipient of validatedData.recipients) {
+      if (validatedData.testSend) {
+        const { sampleIndex, seedAddresses } = validatedData.testSend;
+        const allowedSeeds = getSendPolicy().seedAddresses.map((address) => address.toLowerCase());
+        if (allowedSeeds.length === 0) {
+          return res.status(400).json({
+            message: "No seed addresses are configured for test sends",
+          });
+        }
+        if (seedAddresses.some((address) => !allowedSeeds.includes(address.toLowerCase()))) {
+          return res.status(400).json({
+            message: "Test sends can only go to the configured seed addresses",
+          });
+        }
+        const sample = validatedData.recipients[sampleIndex];
+        if (!sample) {
+          return res.status(400).json({ message: "Sample recipient not found" });
+        }
+        // Recorded against the campaign straight away if this draft was
+        // already submitted with this content, otherwise claimed once it is
+        const { draftId } = validatedData;
+        const submitted = draftId
+          ? (await storage.getCampaignsByStatus(UNSENT_STATUSES)).filter(
+              (campaign) =>
+                campaign.draftId === draftId &&
+                campaign.contentHash === hash &&
+                !campaign.dryRun,
+            )
+          : [];
         try {
-          res.write(`data: ${JSON.stringify({ email: recipient, status: "sending" })}\n\n`);
-
-          const mailOptions = {
-            from: validatedData.smtpConfig.fromEmail,
-            to: recipient,
-            subject: validatedData.subject,
-            html: validatedData.htmlBody,
-            text: validatedData.textBody || validatedData.htmlBody.replace(/<[^>]*>/g, ""),
-            cc: validatedData.cc,
-            bcc: validatedData.bcc,
+          const record = await sendTestMessages({
+            content,
+            draftId,
+            contentHash: hash,
             attachments,
-          };
-
-          await transporter.sendMail(mailOptions);
-          
-          const sentStatus: EmailStatus = {
-            email: recipient,
-            status: "sent",
-          };
-          results.push(sentStatus);
-          totalSent++;
-          
-          res.write(`data: ${JSON.stringify(sentStatus)}\n\n`);
+            sample,
+            seedAddresses,
+            profiles: [profile, ...fallbacks],
+            campaignId: submitted.at(-1)?.id,
+            user: req.user!,
+          });
+          return res.json(record);
         } catch (error) {
-          console.error(`Failed to send email to ${recipient}:`, error);
-          const failedStatus: EmailStatus = {
-            email: recipient,
-            status: "failed",
-            error: error instanceof Error ? error.message : "Unknown error",
-          };
-          results.push(failedStatus);
-          totalFailed++;
-          
-          res.write(`data: ${JSON.stringify(failedStatus)}\n\n`);
+          if (error instanceof DeliveryError) {
+            return res.status(502).json({ message: error.message });
+          }
+          throw error;
         }
       }
 
-      const response: SendEmailResponse = {
-        results,
-        totalSent,
-        totalFailed,
-      };
+      // Accepted as long as one profile in the chain works; the worker
+      // checks again, in order, when it starts sending. Dry runs never
+      // contact the provider.
+      const chain = new ProviderChain([profile, ...fallbacks]);
+      try {
+        if (!validatedData.dryRun && !(await chain.connect())) {
+          // Not 401: that would read as the operator's session having expired
+          return res.status(502).json({
+            message: `SMTP verification failed (${chain.failures.join("; ")}). Ask an admin to check the profile settings.`,
+          });
+        }
+      } finally {
+        chain.close();
+      }
 
-      res.write(`data: ${JSON.stringify({ type: "complete", data: response })}\n\n`);
-      res.end();
+      const campaign = await storage.createCampaign(
+        {
+          ...content,
+          contentHash: hash,
+          draftId: validatedData.draftId,
+          attachments: attachments.map((a) => ({
+            filename: a.filename,
+            contentType: a.contentType,
+            size: a.content.length,
+          })),
+          smtpProfileId: profile.id,
+          fallbackProfileIds: fallbacks.map((fallback) => fallback.id),
+          category: validatedData.category,
+          status: validatedData.dryRun
+            ? "queued"
+            : requiresApproval(validatedData.recipients.length)
+              ? "pending_approval"
+              : dispatchStatus({ scheduledAt: validatedData.scheduledAt ?? null }),
+          dryRun: validatedData.dryRun,
+          recipientCount: validatedData.recipients.length,
+          scheduledAt: validatedData.scheduledAt,
+          timeZone: validatedData.timeZone,
+          createdBy: req.user!.id,
+          revisionOf: revised?.id,
+        },
+        validatedData.recipients,
+        attachments,
+      );
+      if (!campaign.dryRun && campaign.draftId) {
+        await storage.claimTestSends(campaign.draftId, hash, campaign.id);
+      }
+      if (revised) {
+        await storage.updateCampaign(revised.id, { status: "cancelled" });
+        await recordAudit(req, revised.id, "superseded", `Replaced by campaign ${campaign.id}`);
+      }
+      await recordAudit(
+        req,
+        campaign.id,
+        campaign.status === "pending_approval" ? "submitted" : "dispatched",
+        campaign.dryRun ? "Dry run" : undefined,
+      );
+      if (campaign.status === "queued") sendQueue.kick();
+
+      res.status(202).json({
+        campaignId: campaign.id,
+        status: campaign.status,
+        dryRun: campaign.dryRun,
+      });
     } catch (error) {
       console.error("Error sending emails:", error);
-      
-      if (sseStarted) {
-        res.write(`data: ${JSON.stringify({ 
-          type: "error", 
-          message: error instanceof Error ? error.message : "Failed to send emails" 
-        })}\n\n`);
-        res.end();
-      } else {
-        if (error instanceof z.ZodError) {
-          return res.status(400).json({ 
-            message: "Invalid request data",
-            errors: error.errors 
-          });
-        }
 
-        res.status(500).json({ 
-          message: error instanceof Error ? error.message : "Failed to send emails" 
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid request data",
+          errors: error.errors 
         });
       }
+
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to send emails" 
+      });
+    }
+  }));
+
+  app.get("/api/campaigns", asyncHandler(async (req, res) => {
+    // ?status=a,b filters by any of the listed statuses
+    const status = z
+      .string()
+      .transform((value) => value.split(","))
+      .pipe(z.array(campaignStatusSchema))
+      .safeParse(req.query.status);
+    const campaigns = status.success
+      ? (await storage.getCampaignsByStatus(status.data)).sort(
+          (a, b) =>
+            (a.scheduledAt?.getTime() ?? 0) - (b.scheduledAt?.getTime() ?? 0),
+        )
+      : await storage.listCampaigns();
+    res.json(campaigns);
+  }));
+
+  app.get("/api/campaigns/:id", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    res.json(await toCampaignDetail(campaign));
+  }));
+
+  app.get("/api/campaigns/:id/review", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const previous = await findPreviousApproved(campaign);
+    const review: CampaignReview = {
+      campaign: await toCampaignDetail(campaign),
+      previousApproved: previous ? await toCampaignDetail(previous) : null,
+      audit: await storage.getAuditTrail(campaign.id),
+      testSends: await storage.listTestSends(campaign.id),
+    };
+    res.json(review);
+  }));
+
+  // Attachments are addressed by their position in campaign.attachments
+  app.get("/api/campaigns/:id/attachments/:index", asyncHandler(async (req, res) => {
+    const attachments = await storage.getCampaignAttachments(req.params.id);
+    const attachment = attachments[parseInt(req.params.index, 10)];
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+    res.setHeader("Content-Type", attachment.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+    );
+    res.send(attachment.content);
+  }));
+
+  // Messages captured by a dry run; the list leaves out the bodies
+  app.get("/api/campaigns/:id/captures", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    const captures = await storage.listCapturedMessages(campaign.id);
+    res.json(
+      captures.map(
+        (capture): CapturedMessageSummary => ({
+          id: capture.id,
+          email: capture.email,
+          subject: capture.subject,
+          size: capture.size,
+          createdAt: capture.createdAt,
+          attachmentCount: capture.attachments.length,
+        }),
+      ),
+    );
+  }));
+
+  app.get("/api/campaigns/:id/captures/:captureId", asyncHandler(async (req, res) => {
+    // Capture ids are integers; anything else would reach the query as NaN
+    const captureId = Number(req.params.captureId);
+    const capture = Number.isSafeInteger(captureId)
+      ? await storage.getCapturedMessage(req.params.id, captureId)
+      : undefined;
+    if (!capture) {
+      return res.status(404).json({ message: "Captured message not found" });
+    }
+    res.json(capture);
+  }));
+
+  app.post("/api/campaigns/:id/approve", requireRole("approver", "admin"), asyncHandler(async (req, res) => {
+    const decision = reviewDecisionSchema.safeParse(req.body ?? {});
+    if (!decision.success) {
+      return res.status(400).json({ message: "Invalid comment", errors: decision.error.errors });
+    }
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (campaign.status !== "pending_approval") {
+      return res.status(409).json({ message: `A ${campaign.status} campaign cannot be approved` });
+    }
+    const denial = approvalDenial(req.user!, campaign);
+    if (denial) {
+      return res.status(403).json({ message: denial });
+    }
+
+    const approved = await storage.updateCampaignIfStatus(campaign.id, ["pending_approval"], {
+      status: "approved",
+      approvedBy: req.user!.id,
+      approvedAt: new Date(),
+    });
+    if (!approved) {
+      return res.status(409).json({ message: "The campaign changed while it was being reviewed" });
+    }
+    await recordAudit(req, campaign.id, "approved", decision.data.comment);
+    res.json(approved);
+  }));
+
+  // Sends the campaign back to its author as a draft
+  app.post("/api/campaigns/:id/reject", requireRole("approver", "admin"), asyncHandler(async (req, res) => {
+    const decision = reviewDecisionSchema.safeParse(req.body ?? {});
+    if (!decision.success) {
+      return res.status(400).json({ message: "Invalid comment", errors: decision.error.errors });
+    }
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
     }
+    if (campaign.status !== "pending_approval") {
+      return res.status(409).json({ message: `A ${campaign.status} campaign cannot be rejected` });
+    }
+
+    const rejected = await storage.updateCampaignIfStatus(campaign.id, ["pending_approval"], {
+      status: "draft",
+    });
+    if (!rejected) {
+      return res.status(409).json({ message: "The campaign changed while it was being reviewed" });
+    }
+    await recordAudit(req, campaign.id, "rejected", decision.data.comment);
+    res.json(rejected);
+  }));
+
+  // Releases an approved campaign to the queue, or to the scheduler if its
+  // send time is still ahead.
+  app.post("/api/campaigns/:id/dispatch", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (campaign.status !== "approved") {
+      return res.status(409).json({ message: "Only approved campaigns can be dispatched" });
+    }
+
+    const dispatched = await storage.updateCampaignIfStatus(campaign.id, ["approved"], {
+      status: dispatchStatus(campaign),
+    });
+    if (!dispatched) {
+      return res.status(409).json({ message: "Only approved campaigns can be dispatched" });
+    }
+    await recordAudit(req, campaign.id, "dispatched");
+    if (dispatched.status === "queued") sendQueue.kick();
+    res.status(202).json({ campaignId: campaign.id, status: dispatched.status });
+  }));
+
+  app.get("/api/campaigns/:id/events", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    await streamCampaignEvents(req, res, campaign.id);
+  }));
+
+  app.post("/api/campaigns/:id/cancel", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (!UNSENT_STATUSES.includes(campaign.status)) {
+      return res.status(409).json({
+        message: `A ${campaign.status} campaign cannot be cancelled`,
+      });
+    }
+
+    const cancelled = await sendQueue.cancel(campaign.id, UNSENT_STATUSES);
+    if (!cancelled) {
+      return res.status(409).json({
+        message: "The campaign has started sending and can no longer be cancelled",
+      });
+    }
+    await recordAudit(req, campaign.id, "cancelled");
+    res.json(cancelled);
+  }));
+
+  // Sends the campaign again to its failed recipients only, reusing the
+  // stored content and attachments.
+  app.post("/api/campaigns/:id/retry-failed", asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (campaign.status !== "completed" && campaign.status !== "failed") {
+      return res.status(409).json({
+        message: "Failed recipients can only be retried once the campaign has finished",
+      });
+    }
+
+    const requeued = await storage.requeueFailedEmailStatuses(campaign.id);
+    if (requeued === 0) {
+      return res.status(409).json({ message: "This campaign has no failed recipients" });
+    }
+
+    await storage.updateCampaign(campaign.id, { status: "queued" });
+    await recordAudit(req, campaign.id, "dispatched", `Retrying ${requeued} failed recipient(s)`);
+    sendQueue.kick();
+    res.status(202).json({ campaignId: campaign.id, requeued });
+  }));
+
+  app.patch("/api/campaigns/:id/schedule", asyncHandler(async (req, res) => {
+    const result = rescheduleCampaignSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid schedule",
+        errors: result.error.errors,
+      });
+    }
+    if (result.data.scheduledAt.getTime() <= Date.now()) {
+      return res.status(400).json({
+        message: "Scheduled time must be in the future",
+      });
+    }
+
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+    if (campaign.status !== "scheduled") {
+      return res.status(409).json({
+        message: "Only scheduled campaigns can be rescheduled",
+      });
+    }
+
+    const updated = await storage.updateCampaignIfStatus(campaign.id, ["scheduled"], result.data);
+    if (!updated) {
+      return res.status(409).json({
+        message: "The campaign has already been released or cancelled",
+      });
+    }
+    res.json(updated);
+  }));
+
+  app.get("/api/templates", asyncHandler(async (_req, res) => {
+    res.json(await storage.listTemplates());
+  }));
+
+  app.get("/api/templates/:id", asyncHandler(async (req, res) => {
+    const template = await storage.getTemplate(req.params.id);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    res.json(template);
+  }));
+
+  app.post("/api/templates", asyncHandler(async (req, res) => {
+    const result = insertTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid template data",
+        errors: result.error.errors,
+      });
+    }
+    res.status(201).json(await storage.createTemplate(result.data));
+  }));
+
+  app.patch("/api/templates/:id", asyncHandler(async (req, res) => {
+    const result = insertTemplateSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid template data",
+        errors: result.error.errors,
+      });
+    }
+    const template = await storage.updateTemplate(req.params.id, result.data);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    res.json(template);
+  }));
+
+  app.delete("/api/templates/:id", asyncHandler(async (req, res) => {
+    if (!(await storage.deleteTemplate(req.params.id))) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    res.status(204).end();
+  }));
+
+  // Every operator can pick a profile; only admins see or change its settings
+  app.get("/api/smtp-profiles", asyncHandler(async (_req, res) => {
+    res.json((await storage.listSmtpProfiles()).map(toPublicSmtpProfile));
+  }));
+
+  app.post("/api/smtp-profiles", requireRole("admin"), asyncHandler(async (req, res) => {
+    const result = smtpProfileInputSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid SMTP profile",
+        errors: result.error.errors,
+      });
+    }
+
+    const { password, ...profile } = result.data;
+    const missing = missingProviderSettings({ ...profile, hasSecret: password !== "" });
+    if (missing) {
+      return res.status(400).json({ message: missing });
+    }
+    const created = await storage.createSmtpProfile({
+      ...profile,
+      encryptedPassword: encryptSecret(password),
+    });
+    res.status(201).json(toPublicSmtpProfile(created));
+  }));
+
+  app.patch("/api/smtp-profiles/:id", requireRole("admin"), asyncHandler(async (req, res) => {
+    const result = updateSmtpProfileSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid SMTP profile",
+        errors: result.error.errors,
+      });
+    }
+
+    const existing = await storage.getSmtpProfile(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "SMTP profile not found" });
+    }
+    const { password, ...update } = result.data;
+    const missing = missingProviderSettings({
+      ...existing,
+      ...update,
+      // A stored secret that is empty was never set
+      hasSecret: Boolean(password) || decryptSecret(existing.encryptedPassword) !== "",
+    });
+    if (missing) {
+      return res.status(400).json({ message: missing });
+    }
+    const profile = await storage.updateSmtpProfile(req.params.id, {
+      ...update,
+      ...(password ? { encryptedPassword: encryptSecret(password) } : {}),
+    });
+    if (!profile) {
+      return res.status(404).json({ message: "SMTP profile not found" });
+    }
+    res.json(toPublicSmtpProfile(profile));
+  }));
+
+  app.delete("/api/smtp-profiles/:id", requireRole("admin"), asyncHandler(async (req, res) => {
+    const pending = await storage.getCampaignsByStatus([...UNSENT_STATUSES, "sending"]);
+    if (
+      pending.some(
+        (campaign) =>
+          campaign.smtpProfileId === req.params.id ||
+          campaign.fallbackProfileIds.includes(req.params.id),
+      )
+    ) {
+      return res.status(409).json({
+        message: "This profile is used by campaigns that have not finished sending",
+      });
+    }
+    if (!(await storage.deleteSmtpProfile(req.params.id))) {
+      return res.status(404).json({ message: "SMTP profile not found" });
+    }
+    for (const identity of await storage.listSenderIdentities()) {
+      if (identity.smtpProfileIds.includes(req.params.id)) {
+        await storage.updateSenderIdentity(identity.id, {
+          smtpProfileIds: identity.smtpProfileIds.filter((id) => id !== req.params.id),
+        });
+      }
+    }
+    res.status(204).end();
+  }));
+
+  // Checks the stored credentials against the server without sending mail
+  app.post("/api/smtp-profiles/:id/verify", requireRole("admin"), asyncHandler(async (req, res) => {
+    const profile = await storage.getSmtpProfile(req.params.id);
+    if (!profile) {
+      return res.status(404).json({ message: "SMTP profile not found" });
+    }
+
+    let provider;
+    try {
+      provider = createMailProvider(profile);
+      await provider.verify();
+      res.json({ ok: true });
+    } catch (error) {
+      res.status(502).json({
+        message: error instanceof Error ? error.message : "SMTP verification failed",
+      });
+    } finally {
+      provider?.close();
+    }
+  }));
+
+  app.get("/api/sender-identities", asyncHandler(async (_req, res) => {
+    res.json((await storage.listSenderIdentities()).map(toPublicSenderIdentity));
+  }));
+
+  app.get("/api/sender-identities/:id/logo", asyncHandler(async (req, res) => {
+    const identity = await storage.getSenderIdentity(req.params.id);
+    if (!identity?.logoContent || !identity.logoContentType) {
+      return res.status(404).json({ message: "Logo not found" });
+    }
+    res.setHeader("Content-Type", identity.logoContentType);
+    res.send(Buffer.from(identity.logoContent, "base64"));
+  }));
+
+  app.post("/api/sender-identities", requireRole("admin"), asyncHandler(async (req, res) => {
+    const result = senderIdentityInputSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid sender identity",
+        errors: result.error.errors,
+      });
+    }
+
+    const created = await storage.createSenderIdentity({
+      ...toSenderIdentityColumns(result.data),
+      name: result.data.name,
+      fromName: result.data.fromName,
+      fromEmail: result.data.fromEmail,
+    });
+    res.status(201).json(toPublicSenderIdentity(created));
+  }));
+
+  app.patch("/api/sender-identities/:id", requireRole("admin"), asyncHandler(async (req, res) => {
+    const result = updateSenderIdentitySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid sender identity",
+        errors: result.error.errors,
+      });
+    }
+
+    const identity = await storage.updateSenderIdentity(
+      req.params.id,
+      toSenderIdentityColumns(result.data),
+    );
+    if (!identity) {
+      return res.status(404).json({ message: "Sender identity not found" });
+    }
+    res.json(toPublicSenderIdentity(identity));
+  }));
+
+  app.delete("/api/sender-identities/:id", requireRole("admin"), asyncHandler(async (req, res) => {
+    // Unsent campaigns still need the identity's logo
+    const pending = await storage.getCampaignsByStatus([...UNSENT_STATUSES, "sending"]);
+    if (pending.some((campaign) => campaign.senderIdentityId === req.params.id)) {
+      return res.status(409).json({
+        message: "This identity is used by campaigns that have not finished sending",
+      });
+    }
+    if (!(await storage.deleteSenderIdentity(req.params.id))) {
+      return res.status(404).json({ message: "Sender identity not found" });
+    }
+    res.status(204).end();
+  }));
+
+  app.get("/api/suppressions", requireRole("approver", "admin"), asyncHandler(async (_req, res) => {
+    res.json(await storage.listSuppressions());
+  }));
+
+  app.post("/api/suppressions", requireRole("approver", "admin"), asyncHandler(async (req, res) => {
+    const result = addSuppressionsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid suppression list entries",
+        errors: result.error.errors,
+      });
+    }
+    const { emails, reason, note } = result.data;
+    const added = await storage.addSuppressions(
+      emails.map((email) => ({
+        email,
+        reason,
+        detail: note || null,
+        createdBy: req.user!.id,
+      })),
+    );
+    res.status(201).json({ added, skipped: emails.length - added });
+  }));
+
+  // Lets the composer say how many pasted recipients will be skipped
+  app.post("/api/suppressions/check", asyncHandler(async (req, res) => {
+    const result = checkSuppressionsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid request data",
+        errors: result.error.errors,
+      });
+    }
+    const skipped = await findSkippedRecipients(result.data.emails, result.data.category);
+    const suppressed: SuppressedRecipient[] = Array.from(skipped, ([email, reason]) => ({
+      email,
+      reason,
+    }));
+    res.json(suppressed);
+  }));
+
+  // Lifting a suppression means mailing someone who may have opted out
+  app.delete("/api/suppressions/:email", requireRole("admin"), asyncHandler(async (req, res) => {
+    if (!(await storage.deleteSuppression(req.params.email))) {
+      return res.status(404).json({ message: "Address is not suppressed" });
+    }
+    res.status(204).end();
+  }));
+
+  app.get("/api/policy", (_req, res) => {
+    res.json(getSendPolicy());
+  });
+
+  app.get("/api/users", requireRole("admin"), asyncHandler(async (_req, res) => {
+    res.json((await storage.listUsers()).map(toPublicUser));
+  }));
+
+  app.post("/api/users", requireRole("admin"), asyncHandler(async (req, res) => {
+    const result = createUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid user data",
+        errors: result.error.errors,
+      });
+    }
+    if (await storage.getUserByUsername(result.data.username)) {
+      return res.status(409).json({ message: "That username is already taken" });
+    }
+
+    const user = await storage.createUser({
+      ...result.data,
+      password: await hashPassword(result.data.password),
+    });
+    res.status(201).json(toPublicUser(user));
+  }));
+
+  app.patch("/api/users/:id", requireRole("admin"), asyncHandler(async (req, res) => {
+    const result = updateUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid user data",
+        errors: result.error.errors,
+      });
+    }
+    // Admins cannot demote themselves, so there is always one left
+    if (req.params.id === req.user!.id && result.data.role && result.data.role !== "admin") {
+      return res.status(409).json({ message: "You cannot remove your own admin role" });
+    }
+
+    const { password, role } = result.data;
+    const user = await storage.updateUser(req.params.id, {
+      ...(role ? { role } : {}),
+      ...(password ? { password: await hashPassword(password) } : {}),
+    });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    res.json(toPublicUser(user));
+  }));
+
+  app.delete("/api/users/:id", requireRole("admin"), asyncHandler(async (req, res) => {
+    if (req.params.id === req.user!.id) {
+      return res.status(409).json({ message: "You cannot delete your own account" });
+    }
+    if (!(await storage.deleteUser(req.params.id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    res.status(204).end();
+  }));
+
+  if (app.get("env") === "development") {
+    setupDevMailbox(app);
+  }
+
+  sendQueue.start().catch((error) => {
+    console.error("Failed to start send queue:", error);
   });
+  startScheduler();
 
   const httpServer = createServer(app);
   return httpServer;
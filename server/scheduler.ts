@@ -0,0 +1,26 @@
+import { storage } from "./storage";
+import { sendQueue } from "./queue";
+import { log } from "./vite";
+
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// Moves scheduled campaigns whose time has come onto the send queue. The
+// check and the move are one write, so a campaign cancelled or rescheduled
+// in the meantime stays where it is.
+async function releaseDueCampaigns(): Promise<void> {
+  const released = await storage.releaseScheduledCampaigns(new Date());
+  for (const campaign of released) {
+    log(`released scheduled campaign ${campaign.id}`, "scheduler");
+  }
+  if (released.length > 0) sendQueue.kick();
+}
+
+export function startScheduler(): void {
+  const tick = () => {
+    releaseDueCampaigns().catch((error) => {
+      console.error("Scheduler tick failed:", error);
+    });
+  };
+  tick();
+  setInterval(tick, POLL_INTERVAL_MS);
+}
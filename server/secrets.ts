@@ -0,0 +1,38 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+
+// Any passphrase works; it is stretched to the 32-byte AES key with SHA-256.
+function getKey(): Buffer {
+  const secret = process.env.SMTP_SECRET_KEY;
+  if (!secret) {
+    throw new Error("SMTP_SECRET_KEY must be set to store SMTP passwords");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+// Called at startup, so a missing key stops the server instead of failing
+// the first profile save or send
+export function assertSecretKey(): void {
+  getKey();
+}
+
+// Stored as "<iv>.<auth tag>.<ciphertext>", each base64
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(".");
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Stored secret is malformed");
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
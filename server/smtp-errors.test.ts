@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { classifySmtpError } from "./smtp-errors";
+
+// Shaped like the errors nodemailer rejects sendMail with
+function smtpError(
+  message: string,
+  details: { code?: string; responseCode?: number; response?: string; command?: string },
+) {
+  return Object.assign(new Error(message), details);
+}
+
+test("4xx replies are transient", () => {
+  const failure = classifySmtpError(
+    smtpError("Greylisted", {
+      code: "EENVELOPE",
+      responseCode: 451,
+      response: "451 4.7.1 Greylisted, try again later",
+      command: "RCPT TO",
+    }),
+  );
+  assert.equal(failure.transient, true);
+  assert.equal(failure.connection, false);
+  assert.equal(failure.responseCode, 451);
+  assert.equal(failure.command, "RCPT TO");
+});
+
+test("5xx replies are permanent and keep the refused command", () => {
+  const failure = classifySmtpError(
+    smtpError("Sender domain not verified", {
+      code: "EENVELOPE",
+      responseCode: 550,
+      response: "550 5.7.1 Sender domain not verified",
+      command: "MAIL FROM",
+    }),
+  );
+  assert.deepEqual(failure, {
+    transient: false,
+    connection: false,
+    message: "Sender domain not verified",
+    responseCode: 550,
+    response: "550 5.7.1 Sender domain not verified",
+    command: "MAIL FROM",
+  });
+});
+
+test("failed, dropped or timed-out connections are transient connection failures", () => {
+  for (const code of ["ECONNECTION", "ETIMEDOUT", "ESOCKET", "EDNS", "ECONNRESET", "ECONNREFUSED"]) {
+    const failure = classifySmtpError(smtpError("Connection closed", { code }));
+    assert.equal(failure.transient, true, code);
+    assert.equal(failure.connection, true, code);
+  }
+});
+
+test("a connection error code with an SMTP reply is about the reply", () => {
+  const failure = classifySmtpError(
+    smtpError("Too many connections", { code: "ECONNECTION", responseCode: 554 }),
+  );
+  assert.equal(failure.transient, false);
+  assert.equal(failure.connection, false);
+});
+
+test("anything unrecognised is final", () => {
+  assert.deepEqual(classifySmtpError(smtpError("Invalid login", { code: "EAUTH" })), {
+    transient: false,
+    connection: false,
+    message: "Invalid login",
+    responseCode: undefined,
+    response: undefined,
+    command: undefined,
+  });
+  const failure = classifySmtpError("boom");
+  assert.equal(failure.message, "boom");
+  assert.equal(failure.transient, false);
+  assert.equal(classifySmtpError(undefined).message, "Unknown error");
+});
@@ -0,0 +1,53 @@
+// Socket-level failures worth another attempt (see nodemailer's error codes)
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNECTION",
+  "ETIMEDOUT",
+  "ESOCKET",
+  "EDNS",
+  "ECONNRESET",
+  "ECONNREFUSED",
+]);
+
+export type SmtpFailure = {
+  transient: boolean;
+  // No reply at all: the connection failed, dropped or timed out
+  connection: boolean;
+  message: string;
+  // SMTP reply code and text, when the server answered at all
+  responseCode?: number;
+  response?: string;
+  // Command the reply refused, as nodemailer reports it ("RCPT TO", ...)
+  command?: string;
+};
+
+/**
+ * Sorts a nodemailer send error into transient or permanent: 4xx replies
+ * (greylisting, "421 try again later", mailbox busy) and dropped or timed out
+ * connections are retried; 5xx replies and anything unrecognised are final.
+ */
+export function classifySmtpError(error: unknown): SmtpFailure {
+  const details = (error ?? {}) as {
+    message?: string;
+    code?: string;
+    responseCode?: number;
+    response?: string;
+    command?: string;
+  };
+  const message =
+    error instanceof Error ? error.message : String(error ?? "Unknown error");
+  const responseCode =
+    typeof details.responseCode === "number" ? details.responseCode : undefined;
+  const response =
+    typeof details.response === "string" ? details.response : undefined;
+  const command =
+    typeof details.command === "string" ? details.command : undefined;
+
+  const connection =
+    responseCode === undefined && TRANSIENT_ERROR_CODES.has(details.code ?? "");
+  const transient =
+    responseCode !== undefined
+      ? responseCode >= 400 && responseCode < 500
+      : connection;
+
+  return { transient, connection, message, responseCode, response, command };
+}
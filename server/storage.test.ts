@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { CampaignStatus } from "@shared/schema";
+import { MemStorage } from "./storage";
+
+async function createCampaign(
+  storage: MemStorage,
+  status: CampaignStatus,
+  scheduledAt?: Date,
+) {
+  return storage.createCampaign(
+    {
+      subject: "Hello",
+      htmlBody: "<p>Hello</p>",
+      fromEmail: "sender@example.com",
+      smtpProfileId: "profile",
+      status,
+      scheduledAt,
+    },
+    [{ email: "someone@example.com", fields: {} }],
+    [],
+  );
+}
+
+test("a conditional update only applies while the status still matches", async () => {
+  const storage = new MemStorage();
+  const campaign = await createCampaign(storage, "queued");
+
+  const cancelled = await storage.updateCampaignIfStatus(campaign.id, ["queued"], {
+    status: "cancelled",
+  });
+  assert.equal(cancelled?.status, "cancelled");
+
+  // The worker's stale read still says queued
+  const claimed = await storage.updateCampaignIfStatus(campaign.id, ["queued", "sending"], {
+    status: "sending",
+  });
+  assert.equal(claimed, undefined);
+  assert.equal((await storage.getCampaign(campaign.id))?.status, "cancelled");
+});
+
+test("only due scheduled campaigns are released", async () => {
+  const storage = new MemStorage();
+  const now = new Date("2026-01-01T12:00:00Z");
+  const due = await createCampaign(storage, "scheduled", new Date("2026-01-01T11:59:00Z"));
+  const later = await createCampaign(storage, "scheduled", new Date("2026-01-01T12:01:00Z"));
+  const cancelled = await createCampaign(storage, "cancelled", new Date("2026-01-01T11:00:00Z"));
+
+  const released = await storage.releaseScheduledCampaigns(now);
+
+  assert.deepEqual(released.map((campaign) => campaign.id), [due.id]);
+  assert.equal((await storage.getCampaign(due.id))?.status, "queued");
+  assert.equal((await storage.getCampaign(later.id))?.status, "scheduled");
+  assert.equal((await storage.getCampaign(cancelled.id))?.status, "cancelled");
+});
@@ -1,20 +1,232 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  campaigns,
+  campaignAttachments,
+  campaignEvents,
+  campaignAudit,
+  capturedMessages,
+  testSends,
+  suppressions,
+  subscriptionPreferences,
+  emailStatuses,
+  templates,
+  smtpProfiles,
+  senderIdentities,
+  type User,
+  type InsertUser,
+  type Campaign,
+  type InsertCampaign,
+  type CampaignStatus,
+  type EmailRecipient,
+  type EmailStatus,
+  type EmailStatusRecord,
+  type CampaignEvent,
+  type CapturedMessage,
+  type InsertCapturedMessage,
+  type TestSend,
+  type InsertTestSend,
+  type Suppression,
+  type InsertSuppression,
+  type SubscriptionCategory,
+  type SubscriptionPreference,
+  type CampaignAuditEntry,
+  type InsertCampaignAuditEntry,
+  type ProgressEvent,
+  type Template,
+  type InsertTemplate,
+  type SmtpProfile,
+  type InsertSmtpProfile,
+  type SenderIdentity,
+  type InsertSenderIdentity,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, inArray, isNull, lte } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export type AttachmentFile = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+};
+
+// Fields of a stored status row that an EmailStatus update overwrites. The
+// attempt count is only touched when the update carries one.
+function toEmailStatusUpdate(status: EmailStatus) {
+  return {
+    status: status.status,
+    error: status.error ?? null,
+    ...(status.attempts !== undefined ? { attempts: status.attempts } : {}),
+    smtpCode: status.smtpCode ?? null,
+    smtpResponse: status.smtpResponse ?? null,
+    nextAttemptAt: status.nextAttemptAt ? new Date(status.nextAttemptAt) : null,
+    deliveredVia: status.deliveredVia ?? null,
+    updatedAt: new Date(),
+  };
+}
+
+// Addresses per statement, well under Postgres' parameter limit
+const ADDRESS_BATCH_SIZE = 1000;
+
+// A recipient sent again from scratch, with a fresh retry budget
+const RESET_EMAIL_STATUS = {
+  status: "pending",
+  error: null,
+  attempts: 0,
+  smtpCode: null,
+  smtpResponse: null,
+  nextAttemptAt: null,
+  deliveredVia: null,
+} as const;
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUser(id: string, update: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+
+  createCampaign(
+    campaign: InsertCampaign,
+    recipients: EmailRecipient[],
+    attachments: AttachmentFile[],
+  ): Promise<Campaign>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  listCampaigns(): Promise<Campaign[]>;
+  // Oldest first, so the worker processes campaigns in submission order.
+  getCampaignsByStatus(statuses: CampaignStatus[]): Promise<Campaign[]>;
+  getCampaignAttachments(campaignId: string): Promise<AttachmentFile[]>;
+  updateCampaign(
+    id: string,
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined>;
+  // Applies the update only while the campaign is still in one of
+  // `expected`, in a single write; undefined when it has moved on since it
+  // was read (cancelled, released, already sending).
+  updateCampaignIfStatus(
+    id: string,
+    expected: CampaignStatus[],
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined>;
+  // Moves every scheduled campaign due by `now` to queued; returns them.
+  releaseScheduledCampaigns(now: Date): Promise<Campaign[]>;
+  getEmailStatuses(campaignId: string): Promise<EmailStatusRecord[]>;
+  updateEmailStatus(campaignId: string, status: EmailStatus): Promise<void>;
+  // Puts recipients left mid-send by a crash back to pending; returns how many.
+  requeueInterruptedEmailStatuses(): Promise<number>;
+  // Resets a campaign's failed recipients to pending; returns how many.
+  requeueFailedEmailStatuses(campaignId: string): Promise<number>;
+  appendCampaignEvent(
+    campaignId: string,
+    event: ProgressEvent,
+  ): Promise<CampaignEvent>;
+  // Events with an id greater than afterId, oldest first.
+  getCampaignEvents(
+    campaignId: string,
+    afterId: number,
+  ): Promise<CampaignEvent[]>;
+  appendCapturedMessage(message: InsertCapturedMessage): Promise<CapturedMessage>;
+  // Oldest first
+  listCapturedMessages(campaignId: string): Promise<CapturedMessage[]>;
+  getCapturedMessage(
+    campaignId: string,
+    id: number,
+  ): Promise<CapturedMessage | undefined>;
+  createTestSend(testSend: InsertTestSend): Promise<TestSend>;
+  // Oldest first
+  listTestSends(campaignId: string): Promise<TestSend[]>;
+  // Links unlinked test sends of this draft and content to the campaign;
+  // returns how many.
+  claimTestSends(draftId: string, contentHash: string, campaignId: string): Promise<number>;
+  // Newest first
+  listSuppressions(): Promise<Suppression[]>;
+  // The entries for whichever of these addresses are suppressed, in any case
+  getSuppressions(emails: string[]): Promise<Suppression[]>;
+  // Addresses already listed keep their original entry; returns how many were new.
+  addSuppressions(entries: InsertSuppression[]): Promise<number>;
+  deleteSuppression(email: string): Promise<boolean>;
+  // Rows for whichever of these addresses have saved preferences, in any case
+  getSubscriptionPreferences(emails: string[]): Promise<SubscriptionPreference[]>;
+  setSubscriptionPreference(
+    email: string,
+    optedOut: SubscriptionCategory[],
+  ): Promise<SubscriptionPreference>;
+  appendAuditEntry(entry: InsertCampaignAuditEntry): Promise<CampaignAuditEntry>;
+  // Oldest first
+  getAuditTrail(campaignId: string): Promise<CampaignAuditEntry[]>;
+
+  listTemplates(): Promise<Template[]>;
+  getTemplate(id: string): Promise<Template | undefined>;
+  createTemplate(template: InsertTemplate): Promise<Template>;
+  updateTemplate(
+    id: string,
+    template: Partial<InsertTemplate>,
+  ): Promise<Template | undefined>;
+  deleteTemplate(id: string): Promise<boolean>;
+
+  listSmtpProfiles(): Promise<SmtpProfile[]>;
+  getSmtpProfile(id: string): Promise<SmtpProfile | undefined>;
+  createSmtpProfile(profile: InsertSmtpProfile): Promise<SmtpProfile>;
+  updateSmtpProfile(
+    id: string,
+    profile: Partial<InsertSmtpProfile>,
+  ): Promise<SmtpProfile | undefined>;
+  deleteSmtpProfile(id: string): Promise<boolean>;
+
+  listSenderIdentities(): Promise<SenderIdentity[]>;
+  getSenderIdentity(id: string): Promise<SenderIdentity | undefined>;
+  createSenderIdentity(identity: InsertSenderIdentity): Promise<SenderIdentity>;
+  updateSenderIdentity(
+    id: string,
+    identity: Partial<InsertSenderIdentity>,
+  ): Promise<SenderIdentity | undefined>;
+  deleteSenderIdentity(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private campaigns: Map<string, Campaign>;
+  private campaignAttachments: Map<string, AttachmentFile[]>;
+  private emailStatuses: Map<string, EmailStatusRecord[]>;
+  private campaignEvents: CampaignEvent[];
+  private capturedMessages: CapturedMessage[];
+  private testSends: TestSend[];
+  private suppressions: Map<string, Suppression>;
+  private subscriptionPreferences: Map<string, SubscriptionPreference>;
+  private auditEntries: CampaignAuditEntry[];
+  private templates: Map<string, Template>;
+  private smtpProfiles: Map<string, SmtpProfile>;
+  private senderIdentities: Map<string, SenderIdentity>;
+  private nextStatusId = 1;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
     this.users = new Map();
+    this.campaigns = new Map();
+    this.campaignAttachments = new Map();
+    this.emailStatuses = new Map();
+    this.campaignEvents = [];
+    this.capturedMessages = [];
+    this.testSends = [];
+    this.suppressions = new Map();
+    this.subscriptionPreferences = new Map();
+    this.auditEntries = [];
+    this.templates = new Map();
+    this.smtpProfiles = new Map();
+    this.senderIdentities = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -29,10 +241,999 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "composer" };
     this.users.set(id, user);
     return user;
   }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) =>
+      a.username.localeCompare(b.username),
+    );
+  }
+
+  async updateUser(
+    id: string,
+    update: Partial<InsertUser>,
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, ...update, role: update.role ?? user.role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  async createCampaign(
+    insertCampaign: InsertCampaign,
+    recipients: EmailRecipient[],
+    attachments: AttachmentFile[],
+  ): Promise<Campaign> {
+    const id = randomUUID();
+    const now = new Date();
+    const campaign: Campaign = {
+      textBody: null,
+      cc: [],
+      bcc: [],
+      attachments: [],
+      status: "queued",
+      recipientCount: 0,
+      scheduledAt: null,
+      timeZone: null,
+      createdBy: null,
+      approvedBy: null,
+      approvedAt: null,
+      revisionOf: null,
+      senderIdentityId: null,
+      fromName: null,
+      replyTo: null,
+      signatureHtml: null,
+      fallbackProfileIds: [],
+      category: "transactional",
+      dryRun: false,
+      contentHash: null,
+      draftId: null,
+      ...insertCampaign,
+      id,
+      createdAt: now,
+    };
+    this.campaigns.set(id, campaign);
+    this.campaignAttachments.set(id, attachments);
+    this.emailStatuses.set(
+      id,
+      recipients.map((recipient) => ({
+        id: this.nextStatusId++,
+        campaignId: id,
+        email: recipient.email,
+        name: recipient.name ?? null,
+        fields: recipient.fields,
+        status: "pending",
+        error: null,
+        attempts: 0,
+        smtpCode: null,
+        smtpResponse: null,
+        nextAttemptAt: null,
+        deliveredVia: null,
+        updatedAt: now,
+      })),
+    );
+    return campaign;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    return this.campaigns.get(id);
+  }
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async getCampaignsByStatus(statuses: CampaignStatus[]): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values())
+      .filter((campaign) => statuses.includes(campaign.status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCampaignAttachments(campaignId: string): Promise<AttachmentFile[]> {
+    return this.campaignAttachments.get(campaignId) ?? [];
+  }
+
+  async updateCampaign(
+    id: string,
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign) return undefined;
+    const updated = { ...campaign, ...update };
+    this.campaigns.set(id, updated);
+    return updated;
+  }
+
+  async updateCampaignIfStatus(
+    id: string,
+    expected: CampaignStatus[],
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign || !expected.includes(campaign.status)) return undefined;
+    const updated = { ...campaign, ...update };
+    this.campaigns.set(id, updated);
+    return updated;
+  }
+
+  async releaseScheduledCampaigns(now: Date): Promise<Campaign[]> {
+    const due = Array.from(this.campaigns.values()).filter(
+      (campaign) =>
+        campaign.status === "scheduled" &&
+        campaign.scheduledAt !== null &&
+        campaign.scheduledAt.getTime() <= now.getTime(),
+    );
+    return due.map((campaign) => {
+      const released: Campaign = { ...campaign, status: "queued" };
+      this.campaigns.set(campaign.id, released);
+      return released;
+    });
+  }
+
+  async getEmailStatuses(campaignId: string): Promise<EmailStatusRecord[]> {
+    return this.emailStatuses.get(campaignId) ?? [];
+  }
+
+  async updateEmailStatus(
+    campaignId: string,
+    status: EmailStatus,
+  ): Promise<void> {
+    const record = this.emailStatuses
+      .get(campaignId)
+      ?.find((s) => s.email === status.email);
+    if (!record) return;
+    Object.assign(record, toEmailStatusUpdate(status));
+  }
+
+  async requeueInterruptedEmailStatuses(): Promise<number> {
+    let count = 0;
+    for (const records of Array.from(this.emailStatuses.values())) {
+      for (const record of records) {
+        if (record.status === "sending") {
+          record.status = "pending";
+          record.updatedAt = new Date();
+          count++;
+        }
+      }
+    }
+    return count;
+  }
+
+  async requeueFailedEmailStatuses(campaignId: string): Promise<number> {
+    const failed = (this.emailStatuses.get(campaignId) ?? []).filter(
+      (record) => record.status === "failed",
+    );
+    for (const record of failed) {
+      Object.assign(record, RESET_EMAIL_STATUS, { updatedAt: new Date() });
+    }
+    return failed.length;
+  }
+
+  async appendCampaignEvent(
+    campaignId: string,
+    event: ProgressEvent,
+  ): Promise<CampaignEvent> {
+    const record: CampaignEvent = {
+      id: this.campaignEvents.length + 1,
+      campaignId,
+      event,
+      createdAt: new Date(),
+    };
+    this.campaignEvents.push(record);
+    return record;
+  }
+
+  async getCampaignEvents(
+    campaignId: string,
+    afterId: number,
+  ): Promise<CampaignEvent[]> {
+    return this.campaignEvents.filter(
+      (record) => record.campaignId === campaignId && record.id > afterId,
+    );
+  }
+
+  async appendCapturedMessage(
+    message: InsertCapturedMessage,
+  ): Promise<CapturedMessage> {
+    const record: CapturedMessage = {
+      replyTo: null,
+      cc: [],
+      bcc: [],
+      attachments: [],
+      headers: {},
+      ...message,
+      id: this.capturedMessages.length + 1,
+      createdAt: new Date(),
+    };
+    this.capturedMessages.push(record);
+    return record;
+  }
+
+  async listCapturedMessages(campaignId: string): Promise<CapturedMessage[]> {
+    return this.capturedMessages.filter(
+      (record) => record.campaignId === campaignId,
+    );
+  }
+
+  async getCapturedMessage(
+    campaignId: string,
+    id: number,
+  ): Promise<CapturedMessage | undefined> {
+    return this.capturedMessages.find(
+      (record) => record.campaignId === campaignId && record.id === id,
+    );
+  }
+
+  async createTestSend(testSend: InsertTestSend): Promise<TestSend> {
+    const record: TestSend = {
+      campaignId: null,
+      draftId: null,
+      failures: [],
+      sentVia: null,
+      userId: null,
+      ...testSend,
+      id: this.testSends.length + 1,
+      createdAt: new Date(),
+    };
+    this.testSends.push(record);
+    return record;
+  }
+
+  async listTestSends(campaignId: string): Promise<TestSend[]> {
+    return this.testSends.filter((record) => record.campaignId === campaignId);
+  }
+
+  async claimTestSends(
+    draftId: string,
+    contentHash: string,
+    campaignId: string,
+  ): Promise<number> {
+    const unclaimed = this.testSends.filter(
+      (record) =>
+        record.campaignId === null &&
+        record.draftId === draftId &&
+        record.contentHash === contentHash,
+    );
+    for (const record of unclaimed) record.campaignId = campaignId;
+    return unclaimed.length;
+  }
+
+  async listSuppressions(): Promise<Suppression[]> {
+    return Array.from(this.suppressions.values()).reverse();
+  }
+
+  async getSuppressions(emails: string[]): Promise<Suppression[]> {
+    return emails.flatMap((email) => {
+      const record = this.suppressions.get(email.toLowerCase());
+      return record ? [record] : [];
+    });
+  }
+
+  async addSuppressions(entries: InsertSuppression[]): Promise<number> {
+    let added = 0;
+    for (const entry of entries) {
+      const email = entry.email.toLowerCase();
+      if (this.suppressions.has(email)) continue;
+      this.suppressions.set(email, {
+        detail: null,
+        campaignId: null,
+        createdBy: null,
+        ...entry,
+        email,
+        createdAt: new Date(),
+      });
+      added++;
+    }
+    return added;
+  }
+
+  async deleteSuppression(email: string): Promise<boolean> {
+    return this.suppressions.delete(email.toLowerCase());
+  }
+
+  async getSubscriptionPreferences(
+    emails: string[],
+  ): Promise<SubscriptionPreference[]> {
+    return emails.flatMap((email) => {
+      const record = this.subscriptionPreferences.get(email.toLowerCase());
+      return record ? [record] : [];
+    });
+  }
+
+  async setSubscriptionPreference(
+    email: string,
+    optedOut: SubscriptionCategory[],
+  ): Promise<SubscriptionPreference> {
+    const record: SubscriptionPreference = {
+      email: email.toLowerCase(),
+      optedOut,
+      updatedAt: new Date(),
+    };
+    this.subscriptionPreferences.set(record.email, record);
+    return record;
+  }
+
+  async appendAuditEntry(
+    entry: InsertCampaignAuditEntry,
+  ): Promise<CampaignAuditEntry> {
+    const record: CampaignAuditEntry = {
+      userId: null,
+      comment: null,
+      ...entry,
+      id: this.auditEntries.length + 1,
+      createdAt: new Date(),
+    };
+    this.auditEntries.push(record);
+    return record;
+  }
+
+  async getAuditTrail(campaignId: string): Promise<CampaignAuditEntry[]> {
+    return this.auditEntries.filter((entry) => entry.campaignId === campaignId);
+  }
+  async listTemplates(): Promise<Template[]> {
+    return Array.from(this.templates.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getTemplate(id: string): Promise<Template | undefined> {
+    return this.templates.get(id);
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const id = randomUUID();
+    const now = new Date();
+    const template: Template = {
+      ...insertTemplate,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.templates.set(id, template);
+    return template;
+  }
+
+  async updateTemplate(
+    id: string,
+    update: Partial<InsertTemplate>,
+  ): Promise<Template | undefined> {
+    const template = this.templates.get(id);
+    if (!template) return undefined;
+    const updated = { ...template, ...update, updatedAt: new Date() };
+    this.templates.set(id, updated);
+    return updated;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.templates.delete(id);
+  }
+
+  async listSmtpProfiles(): Promise<SmtpProfile[]> {
+    return Array.from(this.smtpProfiles.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getSmtpProfile(id: string): Promise<SmtpProfile | undefined> {
+    return this.smtpProfiles.get(id);
+  }
+
+  async createSmtpProfile(
+    insertProfile: InsertSmtpProfile,
+  ): Promise<SmtpProfile> {
+    const id = randomUUID();
+    const now = new Date();
+    const profile: SmtpProfile = {
+      provider: "smtp",
+      apiUrl: null,
+      apiKeyHeader: null,
+      security: "starttls",
+      authMethod: "auto",
+      tls: { rejectUnauthorized: true },
+      timeouts: {},
+      pool: { maxConnections: 5, maxMessages: 100, concurrency: 5 },
+      rateLimit: {},
+      ...insertProfile,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.smtpProfiles.set(id, profile);
+    return profile;
+  }
+
+  async updateSmtpProfile(
+    id: string,
+    update: Partial<InsertSmtpProfile>,
+  ): Promise<SmtpProfile | undefined> {
+    const profile = this.smtpProfiles.get(id);
+    if (!profile) return undefined;
+    const updated = { ...profile, ...update, updatedAt: new Date() };
+    this.smtpProfiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteSmtpProfile(id: string): Promise<boolean> {
+    return this.smtpProfiles.delete(id);
+  }
+
+  async listSenderIdentities(): Promise<SenderIdentity[]> {
+    return Array.from(this.senderIdentities.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getSenderIdentity(id: string): Promise<SenderIdentity | undefined> {
+    return this.senderIdentities.get(id);
+  }
+
+  async createSenderIdentity(
+    insertIdentity: InsertSenderIdentity,
+  ): Promise<SenderIdentity> {
+    const id = randomUUID();
+    const now = new Date();
+    const identity: SenderIdentity = {
+      replyTo: null,
+      signatureHtml: null,
+      logoContentType: null,
+      logoContent: null,
+      smtpProfileIds: [],
+      ...insertIdentity,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.senderIdentities.set(id, identity);
+    return identity;
+  }
+
+  async updateSenderIdentity(
+    id: string,
+    update: Partial<InsertSenderIdentity>,
+  ): Promise<SenderIdentity | undefined> {
+    const identity = this.senderIdentities.get(id);
+    if (!identity) return undefined;
+    const updated = { ...identity, ...update, updatedAt: new Date() };
+    this.senderIdentities.set(id, updated);
+    return updated;
+  }
+
+  async deleteSenderIdentity(id: string): Promise<boolean> {
+    return this.senderIdentities.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUser(
+    id: string,
+    update: Partial<InsertUser>,
+  ): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(update)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(users)
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+    return rows.length > 0;
+  }
+
+  async createCampaign(
+    insertCampaign: InsertCampaign,
+    recipients: EmailRecipient[],
+    attachments: AttachmentFile[],
+  ): Promise<Campaign> {
+    return this.db.transaction(async (tx) => {
+      const [campaign] = await tx
+        .insert(campaigns)
+        .values(insertCampaign)
+        .returning();
+      if (attachments.length > 0) {
+        await tx.insert(campaignAttachments).values(
+          attachments.map((attachment) => ({
+            campaignId: campaign.id,
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            content: attachment.content.toString("base64"),
+          })),
+        );
+      }
+      if (recipients.length > 0) {
+        await tx.insert(emailStatuses).values(
+          recipients.map((recipient) => ({
+            campaignId: campaign.id,
+            email: recipient.email,
+            name: recipient.name,
+            fields: recipient.fields,
+          })),
+        );
+      }
+      return campaign;
+    });
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const [campaign] = await this.db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async listCampaigns(): Promise<Campaign[]> {
+    return this.db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
+  }
+
+  async getCampaignsByStatus(statuses: CampaignStatus[]): Promise<Campaign[]> {
+    return this.db
+      .select()
+      .from(campaigns)
+      .where(inArray(campaigns.status, statuses))
+      .orderBy(asc(campaigns.createdAt));
+  }
+
+  async getCampaignAttachments(campaignId: string): Promise<AttachmentFile[]> {
+    const rows = await this.db
+      .select()
+      .from(campaignAttachments)
+      .where(eq(campaignAttachments.campaignId, campaignId))
+      .orderBy(asc(campaignAttachments.id));
+    return rows.map((row) => ({
+      filename: row.filename,
+      contentType: row.contentType,
+      content: Buffer.from(row.content, "base64"),
+    }));
+  }
+
+  async updateCampaign(
+    id: string,
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const [campaign] = await this.db
+      .update(campaigns)
+      .set(update)
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  async updateCampaignIfStatus(
+    id: string,
+    expected: CampaignStatus[],
+    update: Partial<InsertCampaign>,
+  ): Promise<Campaign | undefined> {
+    const [campaign] = await this.db
+      .update(campaigns)
+      .set(update)
+      .where(and(eq(campaigns.id, id), inArray(campaigns.status, expected)))
+      .returning();
+    return campaign;
+  }
+
+  async releaseScheduledCampaigns(now: Date): Promise<Campaign[]> {
+    return this.db
+      .update(campaigns)
+      .set({ status: "queued" })
+      .where(and(eq(campaigns.status, "scheduled"), lte(campaigns.scheduledAt, now)))
+      .returning();
+  }
+
+  async getEmailStatuses(campaignId: string): Promise<EmailStatusRecord[]> {
+    return this.db
+      .select()
+      .from(emailStatuses)
+      .where(eq(emailStatuses.campaignId, campaignId))
+      .orderBy(asc(emailStatuses.id));
+  }
+
+  async updateEmailStatus(
+    campaignId: string,
+    status: EmailStatus,
+  ): Promise<void> {
+    await this.db
+      .update(emailStatuses)
+      .set(toEmailStatusUpdate(status))
+      .where(
+        and(
+          eq(emailStatuses.campaignId, campaignId),
+          eq(emailStatuses.email, status.email),
+        ),
+      );
+  }
+
+  async requeueInterruptedEmailStatuses(): Promise<number> {
+    const rows = await this.db
+      .update(emailStatuses)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(eq(emailStatuses.status, "sending"))
+      .returning({ id: emailStatuses.id });
+    return rows.length;
+  }
+
+  async requeueFailedEmailStatuses(campaignId: string): Promise<number> {
+    const rows = await this.db
+      .update(emailStatuses)
+      .set({ ...RESET_EMAIL_STATUS, updatedAt: new Date() })
+      .where(
+        and(
+          eq(emailStatuses.campaignId, campaignId),
+          eq(emailStatuses.status, "failed"),
+        ),
+      )
+      .returning({ id: emailStatuses.id });
+    return rows.length;
+  }
+
+  async appendCampaignEvent(
+    campaignId: string,
+    event: ProgressEvent,
+  ): Promise<CampaignEvent> {
+    const [record] = await this.db
+      .insert(campaignEvents)
+      .values({ campaignId, event })
+      .returning();
+    return record;
+  }
+
+  async getCampaignEvents(
+    campaignId: string,
+    afterId: number,
+  ): Promise<CampaignEvent[]> {
+    return this.db
+      .select()
+      .from(campaignEvents)
+      .where(
+        and(
+          eq(campaignEvents.campaignId, campaignId),
+          gt(campaignEvents.id, afterId),
+        ),
+      )
+      .orderBy(asc(campaignEvents.id));
+  }
+
+  async appendCapturedMessage(
+    message: InsertCapturedMessage,
+  ): Promise<CapturedMessage> {
+    const [record] = await this.db
+      .insert(capturedMessages)
+      .values(message)
+      .returning();
+    return record;
+  }
+
+  async listCapturedMessages(campaignId: string): Promise<CapturedMessage[]> {
+    return this.db
+      .select()
+      .from(capturedMessages)
+      .where(eq(capturedMessages.campaignId, campaignId))
+      .orderBy(asc(capturedMessages.id));
+  }
+
+  async getCapturedMessage(
+    campaignId: string,
+    id: number,
+  ): Promise<CapturedMessage | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(capturedMessages)
+      .where(
+        and(
+          eq(capturedMessages.campaignId, campaignId),
+          eq(capturedMessages.id, id),
+        ),
+      );
+    return record;
+  }
+
+  async createTestSend(testSend: InsertTestSend): Promise<TestSend> {
+    const [record] = await this.db.insert(testSends).values(testSend).returning();
+    return record;
+  }
+
+  async listTestSends(campaignId: string): Promise<TestSend[]> {
+    return this.db
+      .select()
+      .from(testSends)
+      .where(eq(testSends.campaignId, campaignId))
+      .orderBy(asc(testSends.id));
+  }
+
+  async claimTestSends(
+    draftId: string,
+    contentHash: string,
+    campaignId: string,
+  ): Promise<number> {
+    const rows = await this.db
+      .update(testSends)
+      .set({ campaignId })
+      .where(
+        and(
+          isNull(testSends.campaignId),
+          eq(testSends.draftId, draftId),
+          eq(testSends.contentHash, contentHash),
+        ),
+      )
+      .returning({ id: testSends.id });
+    return rows.length;
+  }
+
+  async listSuppressions(): Promise<Suppression[]> {
+    return this.db
+      .select()
+      .from(suppressions)
+      .orderBy(desc(suppressions.createdAt));
+  }
+
+  async getSuppressions(emails: string[]): Promise<Suppression[]> {
+    const found: Suppression[] = [];
+    for (let i = 0; i < emails.length; i += ADDRESS_BATCH_SIZE) {
+      const batch = emails
+        .slice(i, i + ADDRESS_BATCH_SIZE)
+        .map((email) => email.toLowerCase());
+      found.push(
+        ...(await this.db
+          .select()
+          .from(suppressions)
+          .where(inArray(suppressions.email, batch))),
+      );
+    }
+    return found;
+  }
+
+  async addSuppressions(entries: InsertSuppression[]): Promise<number> {
+    let added = 0;
+    for (let i = 0; i < entries.length; i += ADDRESS_BATCH_SIZE) {
+      const rows = await this.db
+        .insert(suppressions)
+        .values(
+          entries
+            .slice(i, i + ADDRESS_BATCH_SIZE)
+            .map((entry) => ({ ...entry, email: entry.email.toLowerCase() })),
+        )
+        .onConflictDoNothing()
+        .returning({ email: suppressions.email });
+      added += rows.length;
+    }
+    return added;
+  }
+
+  async deleteSuppression(email: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(suppressions)
+      .where(eq(suppressions.email, email.toLowerCase()))
+      .returning({ email: suppressions.email });
+    return rows.length > 0;
+  }
+
+  async getSubscriptionPreferences(
+    emails: string[],
+  ): Promise<SubscriptionPreference[]> {
+    const found: SubscriptionPreference[] = [];
+    for (let i = 0; i < emails.length; i += ADDRESS_BATCH_SIZE) {
+      const batch = emails
+        .slice(i, i + ADDRESS_BATCH_SIZE)
+        .map((email) => email.toLowerCase());
+      found.push(
+        ...(await this.db
+          .select()
+          .from(subscriptionPreferences)
+          .where(inArray(subscriptionPreferences.email, batch))),
+      );
+    }
+    return found;
+  }
+
+  async setSubscriptionPreference(
+    email: string,
+    optedOut: SubscriptionCategory[],
+  ): Promise<SubscriptionPreference> {
+    const updatedAt = new Date();
+    const [record] = await this.db
+      .insert(subscriptionPreferences)
+      .values({ email: email.toLowerCase(), optedOut, updatedAt })
+      .onConflictDoUpdate({
+        target: subscriptionPreferences.email,
+        set: { optedOut, updatedAt },
+      })
+      .returning();
+    return record;
+  }
+
+  async appendAuditEntry(
+    entry: InsertCampaignAuditEntry,
+  ): Promise<CampaignAuditEntry> {
+    const [record] = await this.db
+      .insert(campaignAudit)
+      .values(entry)
+      .returning();
+    return record;
+  }
+
+  async getAuditTrail(campaignId: string): Promise<CampaignAuditEntry[]> {
+    return this.db
+      .select()
+      .from(campaignAudit)
+      .where(eq(campaignAudit.campaignId, campaignId))
+      .orderBy(asc(campaignAudit.id));
+  }
+
+  async listTemplates(): Promise<Template[]> {
+    return this.db.select().from(templates).orderBy(asc(templates.name));
+  }
+
+  async getTemplate(id: string): Promise<Template | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(templates)
+      .where(eq(templates.id, id));
+    return template;
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db
+      .insert(templates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async updateTemplate(
+    id: string,
+    update: Partial<InsertTemplate>,
+  ): Promise<Template | undefined> {
+    const [template] = await this.db
+      .update(templates)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(templates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(templates)
+      .where(eq(templates.id, id))
+      .returning({ id: templates.id });
+    return rows.length > 0;
+  }
+
+  async listSmtpProfiles(): Promise<SmtpProfile[]> {
+    return this.db.select().from(smtpProfiles).orderBy(asc(smtpProfiles.name));
+  }
+
+  async getSmtpProfile(id: string): Promise<SmtpProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(smtpProfiles)
+      .where(eq(smtpProfiles.id, id));
+    return profile;
+  }
+
+  async createSmtpProfile(
+    insertProfile: InsertSmtpProfile,
+  ): Promise<SmtpProfile> {
+    const [profile] = await this.db
+      .insert(smtpProfiles)
+      .values(insertProfile)
+      .returning();
+    return profile;
+  }
+
+  async updateSmtpProfile(
+    id: string,
+    update: Partial<InsertSmtpProfile>,
+  ): Promise<SmtpProfile | undefined> {
+    const [profile] = await this.db
+      .update(smtpProfiles)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(smtpProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteSmtpProfile(id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(smtpProfiles)
+      .where(eq(smtpProfiles.id, id))
+      .returning({ id: smtpProfiles.id });
+    return rows.length > 0;
+  }
+
+  async listSenderIdentities(): Promise<SenderIdentity[]> {
+    return this.db
+      .select()
+      .from(senderIdentities)
+      .orderBy(asc(senderIdentities.name));
+  }
+
+  async getSenderIdentity(id: string): Promise<SenderIdentity | undefined> {
+    const [identity] = await this.db
+      .select()
+      .from(senderIdentities)
+      .where(eq(senderIdentities.id, id));
+    return identity;
+  }
+
+  async createSenderIdentity(
+    insertIdentity: InsertSenderIdentity,
+  ): Promise<SenderIdentity> {
+    const [identity] = await this.db
+      .insert(senderIdentities)
+      .values(insertIdentity)
+      .returning();
+    return identity;
+  }
+
+  async updateSenderIdentity(
+    id: string,
+    update: Partial<InsertSenderIdentity>,
+  ): Promise<SenderIdentity | undefined> {
+    const [identity] = await this.db
+      .update(senderIdentities)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(senderIdentities.id, id))
+      .returning();
+    return identity;
+  }
+
+  async deleteSenderIdentity(id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(senderIdentities)
+      .where(eq(senderIdentities.id, id))
+      .returning({ id: senderIdentities.id });
+    return rows.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Campaign history only survives restarts when DATABASE_URL is set;
+// without it (local dev) everything lives in memory.
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,82 @@
+import type { EmailRecipient, SmtpProfile, TestSend } from "@shared/schema";
+import { prepareContent, renderMessage, type CampaignContent } from "./compose";
+import { DeliveryError, ProviderChain } from "./providers";
+import { getRateLimiter } from "./rate-limiter";
+import { storage, type AttachmentFile } from "./storage";
+
+export const TEST_SUBJECT_PREFIX = "[TEST] ";
+
+type TestSendOptions = {
+  content: CampaignContent;
+  draftId?: string;
+  contentHash: string;
+  attachments: AttachmentFile[];
+  sample: EmailRecipient;
+  seedAddresses: string[];
+  // Primary profile first, then fallbacks
+  profiles: SmtpProfile[];
+  // Campaign already submitted from the same draft with the same content
+  campaignId?: string;
+  user: { id: string; username: string };
+};
+
+/**
+ * Sends the message `sample` would receive to each seed address, with a
+ * [TEST] subject and without the campaign's CC/BCC, and records it. Throws
+ * a DeliveryError when no profile can be reached; individual seed failures
+ * are recorded instead.
+ */
+export async function sendTestMessages(options: TestSendOptions): Promise<TestSend> {
+  const prepared = await prepareContent(options.content, options.attachments);
+  // Each seed gets its own unsubscribe and preference links, so trying them
+  // never changes anything for the sample recipient
+  const render = (seed: string) =>
+    renderMessage(prepared, options.sample, { email: seed, campaignId: null });
+  const subject = `${TEST_SUBJECT_PREFIX}${render(options.sample.email).subject}`;
+
+  const chain = new ProviderChain(options.profiles, { label: "test send" });
+  const failures: Array<{ email: string; error: string }> = [];
+  let sentVia: string | null = null;
+  try {
+    const active = await chain.connect();
+    if (!active) {
+      throw new DeliveryError(
+        `No SMTP profile could be reached. ${chain.failures.join("; ")}`,
+        { transient: true, connection: true },
+      );
+    }
+    const acquire = ({ profile }: { profile: SmtpProfile }) =>
+      getRateLimiter(profile.id, profile.rateLimit).acquire();
+
+    for (const email of options.seedAddresses) {
+      try {
+        const deliveredBy = await chain.send(
+          { ...render(email), to: email, subject, cc: [], bcc: [] },
+          acquire,
+        );
+        sentVia = deliveredBy.profile.name;
+      } catch (error) {
+        console.error(`Test send to ${email} failed:`, error);
+        failures.push({
+          email,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    chain.close();
+  }
+
+  return storage.createTestSend({
+    campaignId: options.campaignId ?? null,
+    draftId: options.draftId ?? null,
+    contentHash: options.contentHash,
+    subject,
+    sampleEmail: options.sample.email,
+    seedAddresses: options.seedAddresses,
+    failures,
+    sentVia,
+    userId: options.user.id,
+    username: options.user.username,
+  });
+}
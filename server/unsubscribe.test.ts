@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { beforeEach, test } from "node:test";
+import { createRecipientToken, verifyRecipientToken } from "./unsubscribe";
+
+const SECRET = "test-secret";
+
+beforeEach(() => {
+  process.env.UNSUBSCRIBE_SECRET = SECRET;
+});
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// Signs like server/unsubscribe.ts does, for payloads it would never build
+function signed(payload: string): string {
+  const signature = createHmac("sha256", SECRET)
+    .update(`unsubscribe.${payload}`)
+    .digest("base64url");
+  return `${payload}.${signature}`;
+}
+
+test("a token verifies back to its recipient and campaign", () => {
+  const link = { email: "someone@example.com", campaignId: "campaign-1" };
+  assert.deepEqual(verifyRecipientToken(createRecipientToken(link)), link);
+
+  const testSend = { email: "seed@example.com", campaignId: null };
+  assert.deepEqual(verifyRecipientToken(createRecipientToken(testSend)), testSend);
+});
+
+test("a token cannot be pointed at another address", () => {
+  const token = createRecipientToken({ email: "someone@example.com", campaignId: "campaign-1" });
+  const [, signature] = token.split(".");
+  const forged = `${encode(["victim@example.com", "campaign-1"])}.${signature}`;
+  assert.equal(verifyRecipientToken(forged), undefined);
+});
+
+test("a tampered or foreign signature is rejected", () => {
+  const token = createRecipientToken({ email: "someone@example.com", campaignId: null });
+  const last = token.at(-1) === "A" ? "B" : "A";
+  assert.equal(verifyRecipientToken(`${token.slice(0, -1)}${last}`), undefined);
+  assert.equal(verifyRecipientToken(`${token}A`), undefined);
+
+  process.env.UNSUBSCRIBE_SECRET = "another-secret";
+  assert.equal(verifyRecipientToken(token), undefined);
+});
+
+test("malformed tokens are rejected", () => {
+  const token = createRecipientToken({ email: "someone@example.com", campaignId: null });
+  for (const malformed of ["", ".", "abc", `${token}.extra`, `.${token.split(".")[1]}`]) {
+    assert.equal(verifyRecipientToken(malformed), undefined, malformed);
+  }
+});
+
+test("a correctly signed payload of the wrong shape is rejected", () => {
+  const notJson = Buffer.from("not json").toString("base64url");
+  assert.equal(verifyRecipientToken(signed(notJson)), undefined);
+  assert.equal(verifyRecipientToken(signed(encode([42, "campaign-1"]))), undefined);
+  assert.deepEqual(verifyRecipientToken(signed(encode(["someone@example.com", 7]))), {
+    email: "someone@example.com",
+    campaignId: null,
+  });
+});
@@ -0,0 +1,155 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Express } from "express";
+import type { UnsubscribeDetails } from "@shared/schema";
+import { asyncHandler } from "./async-handler";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Whose unsubscribe and preference links these are, and the campaign they
+// were sent with (none for test sends)
+export type RecipientLink = {
+  email: string;
+  campaignId: string | null;
+};
+
+function getSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("UNSUBSCRIBE_SECRET or SESSION_SECRET must be set to sign recipient links");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret())
+    .update(`unsubscribe.${payload}`)
+    .digest("base64url");
+}
+
+// "<payload>.<signature>", both base64url, so the token is URL-safe as is
+export function createRecipientToken(link: RecipientLink): string {
+  const payload = Buffer.from(
+    JSON.stringify([link.email, link.campaignId]),
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyRecipientToken(token: string): RecipientLink | undefined {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return undefined;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return undefined;
+  }
+  try {
+    const [email, campaignId] = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8"),
+    );
+    if (typeof email !== "string") return undefined;
+    return { email, campaignId: typeof campaignId === "string" ? campaignId : null };
+  } catch {
+    return undefined;
+  }
+}
+
+// Links in messages must be absolute. The development server is assumed to
+// be reachable on localhost; anywhere else PUBLIC_BASE_URL has to be set.
+export function getPublicBaseUrl(): string | undefined {
+  const configured = process.env.PUBLIC_BASE_URL?.trim().replace(/\/+$/, "");
+  if (configured) return configured;
+  return process.env.NODE_ENV === "development"
+    ? `http://localhost:${process.env.PORT || "5000"}`
+    : undefined;
+}
+
+// Called at startup. Without a base URL every message goes out without
+// List-Unsubscribe headers, so production refuses to start; anywhere else
+// it is only logged.
+export function assertPublicBaseUrl(): void {
+  const configured = process.env.PUBLIC_BASE_URL?.trim();
+  if (configured) {
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(configured).protocol;
+    } catch {
+      // reported below
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      throw new Error(`PUBLIC_BASE_URL must be an http(s) URL, got "${configured}"`);
+    }
+    return;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("PUBLIC_BASE_URL must be set so messages carry unsubscribe links");
+  }
+  if (getPublicBaseUrl() === undefined) {
+    log("PUBLIC_BASE_URL is not set; messages will go out without unsubscribe links", "unsubscribe");
+  }
+}
+
+export function unsubscribeUrl(link: RecipientLink): string | undefined {
+  const baseUrl = getPublicBaseUrl();
+  return baseUrl ? `${baseUrl}/u/${createRecipientToken(link)}` : undefined;
+}
+
+// The same token opens the preference page; holding either link is enough
+// to manage that address
+export function preferencesUrl(link: RecipientLink): string | undefined {
+  const baseUrl = getPublicBaseUrl();
+  return baseUrl
+    ? `${baseUrl}/preferences/${createRecipientToken(link)}`
+    : undefined;
+}
+
+export async function getUnsubscribeDetails(
+  link: RecipientLink,
+): Promise<UnsubscribeDetails> {
+  const campaign = link.campaignId
+    ? await storage.getCampaign(link.campaignId)
+    : undefined;
+  const [suppression] = await storage.getSuppressions([link.email]);
+  return {
+    email: link.email,
+    fromName: campaign?.fromName ?? null,
+    unsubscribed: suppression !== undefined,
+  };
+}
+
+/**
+ * Public routes behind the links in every message, registered before the
+ * session middleware. GET /u/:token is the client's confirmation page; it
+ * reads the link's details here and confirms with a POST to the same URL,
+ * which is also where mail clients send RFC 8058 one-click requests.
+ */
+export function setupUnsubscribe(app: Express) {
+  app.get("/api/unsubscribe/:token", asyncHandler(async (req, res) => {
+    const link = verifyRecipientToken(req.params.token);
+    if (!link) {
+      return res.status(404).json({ message: "This unsubscribe link is not valid" });
+    }
+    res.json(await getUnsubscribeDetails(link));
+  }));
+
+  app.post("/u/:token", asyncHandler(async (req, res) => {
+    const link = verifyRecipientToken(req.params.token);
+    if (!link) {
+      return res.status(404).json({ message: "This unsubscribe link is not valid" });
+    }
+    // Mail clients post "List-Unsubscribe=One-Click" as a form, urlencoded or
+    // multipart; the confirmation page posts JSON
+    const oneClick = !req.is("application/json");
+    const added = await storage.addSuppressions([
+      {
+        email: link.email,
+        reason: "unsubscribe",
+        detail: oneClick ? "One-click unsubscribe from the mail client" : "Unsubscribe page",
+        campaignId: link.campaignId,
+      },
+    ]);
+    if (added > 0) {
+      log(`${link.email} unsubscribed${oneClick ? " (one-click)" : ""}`, "unsubscribe");
+    }
+    res.json({ email: link.email });
+  }));
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  UNSUBSCRIBE_FOOTER_HTML,
+  findMissingPlaceholders,
+  getMergeVariables,
+  htmlToText,
+  renderTemplate,
+} from "./merge";
+
+test("placeholders match merge fields however either is spelled", () => {
+  const variables = getMergeVariables({
+    email: "someone@example.com",
+    name: "Asha",
+    fields: { "Unit No.": "B-402" },
+  });
+  assert.equal(
+    renderTemplate("Dear {{ Name }}, unit {{UNIT_NO}} ({{email}})", variables),
+    "Dear Asha, unit B-402 (someone@example.com)",
+  );
+});
+
+test("values are escaped in HTML but not in plain text", () => {
+  const variables = { name: `<b>"Tom" & 'Jerry'</b>` };
+  assert.equal(
+    renderTemplate("<p>{{name}}</p>", variables, { escapeHtml: true }),
+    "<p>&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;</p>",
+  );
+  assert.equal(renderTemplate("{{name}}", variables), variables.name);
+});
+
+test("unknown placeholders are left in place", () => {
+  assert.equal(renderTemplate("Hi {{ nickname }}", { name: "Asha" }), "Hi {{ nickname }}");
+});
+
+test("missing placeholders are listed once, normalized", () => {
+  assert.deepEqual(
+    findMissingPlaceholders(
+      ["{{Unit No}} for {{name}}", "<p>{{unit_no}} {{ Tower }}</p>"],
+      { name: "Asha" },
+    ),
+    ["unit_no", "tower"],
+  );
+  assert.deepEqual(findMissingPlaceholders(["No placeholders"], {}), []);
+});
+
+test("htmlToText keeps link targets after their text", () => {
+  assert.equal(
+    htmlToText(UNSUBSCRIBE_FOOTER_HTML),
+    "Don't want these emails? Unsubscribe ({{unsubscribe_url}}) or choose which emails you get ({{preferences_url}})",
+  );
+  assert.equal(
+    htmlToText(`<a href='https://example.com'>https://example.com</a> <a href="#top">Top</a> <a href="https://example.com/x"><img src="x.png"></a>`),
+    "https://example.com Top https://example.com/x",
+  );
+});
+
+test("htmlToText breaks lines at blocks and decodes entities", () => {
+  assert.equal(
+    htmlToText("<h1>Hello</h1><p>Line one<br>Line two</p><p></p><p></p><p>Tom &amp; Jerry &lt;3&nbsp;you</p>"),
+    "Hello\nLine one\nLine two\n\nTom & Jerry <3 you",
+  );
+});
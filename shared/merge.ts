@@ -0,0 +1,106 @@
+import type { EmailRecipient } from "./schema";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Filled in by the server with each recipient's own unsubscribe and
+// preference page links
+export const UNSUBSCRIBE_URL_PLACEHOLDER = "unsubscribe_url";
+export const PREFERENCES_URL_PLACEHOLDER = "preferences_url";
+export const RECIPIENT_LINK_PLACEHOLDERS = [
+  UNSUBSCRIBE_URL_PLACEHOLDER,
+  PREFERENCES_URL_PLACEHOLDER,
+];
+
+// Appended by the composer's "Add Unsubscribe Footer" button
+export const UNSUBSCRIBE_FOOTER_HTML = `<p>Don't want these emails? <a href="{{${UNSUBSCRIBE_URL_PLACEHOLDER}}}">Unsubscribe</a> or <a href="{{${PREFERENCES_URL_PLACEHOLDER}}}">choose which emails you get</a></p>`;
+
+// "Unit No.", "unit_no" and "UNIT NO" all refer to the same merge field.
+export function normalizeFieldName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function getMergeVariables(
+  recipient: EmailRecipient,
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(recipient.fields ?? {})) {
+    variables[normalizeFieldName(key)] = value;
+  }
+  if (recipient.name) variables.name = recipient.name;
+  variables.email = recipient.email;
+  return variables;
+}
+
+export function extractPlaceholders(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of Array.from(template.matchAll(PLACEHOLDER_PATTERN))) {
+    names.add(normalizeFieldName(match[1]));
+  }
+  return Array.from(names);
+}
+
+export function findMissingPlaceholders(
+  templates: string[],
+  variables: Record<string, string>,
+): string[] {
+  return templates
+    .flatMap(extractPlaceholders)
+    .filter((name, index, all) => all.indexOf(name) === index)
+    .filter((name) => variables[name] === undefined);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  "#39": "'",
+  nbsp: " ",
+};
+
+// Plain-text alternative of an HTML body. Links keep their target after the
+// text, e.g. "Unsubscribe ({{unsubscribe_url}})", since a text-only reader
+// has no other way to follow them.
+export function htmlToText(html: string): string {
+  return html
+    .replace(
+      /<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi,
+      (_match, _quote, href: string, label: string) => {
+        const text = label.replace(/<[^>]*>/g, "").trim();
+        if (!text) return href;
+        return text === href || href.startsWith("#") ? text : `${text} (${href})`;
+      },
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_match, name: string) => HTML_ENTITIES[name])
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Unknown placeholders are left in place so they stay visible in previews.
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>,
+  options: { escapeHtml?: boolean } = {},
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = variables[normalizeFieldName(name)];
+    if (value === undefined) return match;
+    return options.escapeHtml ? escapeHtml(value) : value;
+  });
+}
@@ -1,56 +1,829 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  text,
+  varchar,
+  serial,
+  integer,
+  boolean,
+  jsonb,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Maximum messages per window; omitted windows are not limited.
+export const rateLimitSchema = z.object({
+  perSecond: z.number().int().positive().optional(),
+  perMinute: z.number().int().positive().optional(),
+  perHour: z.number().int().positive().optional(),
+});
+
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+
+// tls: implicit TLS from the first byte (usually port 465)
+// starttls: plain connection upgraded with STARTTLS, failing if not offered
+// opportunistic: STARTTLS when the server offers it, plain text otherwise
+// none: never upgrade; only for local test servers
+export const smtpSecurityValues = ["tls", "starttls", "opportunistic", "none"] as const;
+export const smtpSecuritySchema = z.enum(smtpSecurityValues);
+export type SmtpSecurity = z.infer<typeof smtpSecuritySchema>;
+
+// "auto" lets nodemailer pick from what the server advertises
+export const smtpAuthMethodValues = ["auto", "PLAIN", "LOGIN", "CRAM-MD5"] as const;
+export const smtpAuthMethodSchema = z.enum(smtpAuthMethodValues);
+export type SmtpAuthMethod = z.infer<typeof smtpAuthMethodSchema>;
+
+export const smtpTlsOptionsSchema = z.object({
+  // Turn off only for servers with self-signed certificates you trust
+  rejectUnauthorized: z.boolean().default(true),
+  // Name to check the certificate against when it differs from the host
+  servername: z.string().trim().min(1).optional(),
+  minVersion: z.enum(["TLSv1.2", "TLSv1.3"]).optional(),
+  // PEM certificate(s) to trust in addition to Node's bundled root CAs
+  ca: z.string().trim().min(1).optional(),
+});
+
+export type SmtpTlsOptions = z.infer<typeof smtpTlsOptionsSchema>;
+
+// Milliseconds; omitted values use nodemailer's defaults
+export const smtpTimeoutsSchema = z.object({
+  connection: z.number().int().positive().optional(),
+  greeting: z.number().int().positive().optional(),
+  socket: z.number().int().positive().optional(),
+});
+
+export type SmtpTimeouts = z.infer<typeof smtpTimeoutsSchema>;
+
+// Delivery throughput: the worker keeps up to `concurrency` messages in
+// flight over a pool of at most `maxConnections` SMTP connections, each
+// reused for up to `maxMessages` messages before it is reopened.
+export const smtpPoolSchema = z.object({
+  maxConnections: z.number().int().min(1).max(50).default(5),
+  maxMessages: z.number().int().min(1).max(10000).default(100),
+  concurrency: z.number().int().min(1).max(50).default(5),
+});
+
+export type SmtpPool = z.infer<typeof smtpPoolSchema>;
+
 export const smtpConfigSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
   host: z.string().default("smtp.zeptomail.in"),
   port: z.number().default(587),
-  fromEmail: z.string().email().default("crmsupport@legacylifespaces.com"),
+  security: smtpSecuritySchema.default("starttls"),
+  authMethod: smtpAuthMethodSchema.default("auto"),
+  tls: smtpTlsOptionsSchema.default({}),
+  timeouts: smtpTimeoutsSchema.default({}),
+  pool: smtpPoolSchema.default({}),
+  rateLimit: rateLimitSchema.default({}),
 });
 
+// Resolved transport settings, built server-side from a stored profile
 export type SMTPConfig = z.infer<typeof smtpConfigSchema>;
 
+// IANA zone name, e.g. "Asia/Kolkata"
+export const timeZoneSchema = z.string().refine((zone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown time zone");
+
+export const rescheduleCampaignSchema = z.object({
+  scheduledAt: z.coerce.date(),
+  timeZone: timeZoneSchema,
+});
+
+// Extra columns (unit number, due amount, ...) become merge fields that
+// subject and body can reference as {{placeholder}}.
 export const emailRecipientSchema = z.object({
   email: z.string().email("Invalid email address"),
   name: z.string().optional(),
+  fields: z.record(z.string()).default({}),
 });
 
 export type EmailRecipient = z.infer<typeof emailRecipientSchema>;
 
+// Kinds of mail recipients can opt out of on the preference page
+export const subscriptionCategoryValues = [
+  "marketing_events",
+  "payment_reminders",
+  "construction_updates",
+] as const;
+
+export type SubscriptionCategory = (typeof subscriptionCategoryValues)[number];
+
+// Transactional notices go to everyone who is not suppressed, whatever
+// their category preferences
+export const campaignCategoryValues = [
+  "transactional",
+  ...subscriptionCategoryValues,
+] as const;
+
+export type CampaignCategory = (typeof campaignCategoryValues)[number];
+
+export const CAMPAIGN_CATEGORY_LABELS: Record<CampaignCategory, string> = {
+  transactional: "Transactional",
+  marketing_events: "Marketing events",
+  payment_reminders: "Payment reminders",
+  construction_updates: "Construction updates",
+};
+
 export const sendEmailRequestSchema = z.object({
-  smtpConfig: smtpConfigSchema,
+  smtpProfileId: z.string().min(1, "Choose an SMTP profile"),
+  senderIdentityId: z.string().min(1, "Choose a sender identity"),
+  // Profiles tried in order when the primary cannot be reached
+  fallbackProfileIds: z
+    .array(z.string().min(1))
+    .max(5, "Use at most 5 fallback profiles")
+    .default([]),
   recipients: z
-    .array(z.string().email())
-    .min(1, "At least one recipient is required"),
+    .array(
+      z.union([
+        emailRecipientSchema,
+        z
+          .string()
+          .email()
+          .transform((email): EmailRecipient => ({ email, fields: {} })),
+      ]),
+    )
+    .min(1, "At least one recipient is required")
+    // Statuses are tracked per address, so an address repeated in any case
+    // is mailed once, with the first row's data
+    .transform((recipients) => {
+      const seen = new Set<string>();
+      return recipients.filter(({ email }) => {
+        const key = email.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }),
   subject: z.string().min(1, "Subject is required"),
   htmlBody: z.string().min(1, "Email body is required"),
   textBody: z.string().optional(),
+  category: z.enum(campaignCategoryValues, {
+    errorMap: () => ({ message: "Choose a category" }),
+  }),
   cc: z.array(z.string().email()).optional(),
   bcc: z.array(z.string().email()).optional(),
+  scheduledAt: z.coerce.date().optional(),
+  timeZone: timeZoneSchema.optional(),
+  // Campaign this one replaces, when revising a draft or approved campaign
+  revisionOf: z.string().optional(),
+  // Picked by the composer for each campaign it edits; test sends are only
+  // ever linked to a campaign submitted with the same one
+  draftId: z.string().uuid().optional(),
+  // Run the whole pipeline but capture the messages instead of sending them
+  dryRun: z.boolean().default(false),
+  // Send one rendered message to internal seed addresses instead of
+  // creating a campaign
+  testSend: z
+    .object({
+      // Recipient whose merge data fills the placeholders
+      sampleIndex: z.number().int().min(0).default(0),
+      seedAddresses: z.array(z.string().email()).min(1, "Choose at least one seed address"),
+    })
+    .optional(),
 });
 
 export type SendEmailRequest = z.infer<typeof sendEmailRequestSchema>;
 
+export const emailStatusValues = [
+  "pending",
+  "sending",
+  "retrying",
+  "sent",
+  "failed",
+  // On the suppression list, or opted out of the campaign's category, when
+  // its turn came; never attempted
+  "suppressed",
+] as const;
+
 export const emailStatusSchema = z.object({
   email: z.string().email(),
-  status: z.enum(["pending", "sending", "sent", "failed"]),
+  status: z.enum(emailStatusValues),
   error: z.string().optional(),
+  // delivery attempts made so far
+  attempts: z.number().optional(),
+  // SMTP reply that caused the last failure
+  smtpCode: z.number().optional(),
+  smtpResponse: z.string().optional(),
+  // ISO timestamp of the next attempt while retrying
+  nextAttemptAt: z.string().optional(),
+  // Name of the profile that delivered the message once sent
+  deliveredVia: z.string().optional(),
 });
 
 export type EmailStatus = z.infer<typeof emailStatusSchema>;
 
 export const sendEmailResponseSchema = z.object({
+  campaignId: z.string(),
   results: z.array(emailStatusSchema),
   totalSent: z.number(),
   totalFailed: z.number(),
+  totalSuppressed: z.number(),
 });
 
 export type SendEmailResponse = z.infer<typeof sendEmailResponseSchema>;
 
-export type User = {
-  id: string;
-  username: string;
-  password: string;
+export type CampaignProgress = {
+  processed: number;
+  total: number;
+  // ISO timestamp; null until there is enough data to estimate
+  estimatedCompletionAt: string | null;
 };
 
-export type InsertUser = Omit<User, "id">;
+export type ProgressEvent =
+  | EmailStatus
+  | ({ type: "progress" } & CampaignProgress)
+  | { type: "complete"; data: SendEmailResponse }
+  | { type: "error"; message: string };
+
+export type TerminalProgressEvent = Extract<
+  ProgressEvent,
+  { type: "complete" | "error" }
+>;
+
+export function isTerminalEvent(
+  event: ProgressEvent,
+): event is TerminalProgressEvent {
+  return "type" in event && (event.type === "complete" || event.type === "error");
+}
+
+// composer: drafts campaigns and sends those up to the approval threshold
+// approver: may also approve other people's campaigns above the threshold
+// admin: everything, plus managing operator accounts
+export const userRoleValues = ["composer", "approver", "admin"] as const;
+export const userRoleSchema = z.enum(userRoleValues);
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const users = pgTable("users", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("composer"),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  role: userRoleSchema.optional(),
+}).pick({
+  username: true,
+  password: true,
+  role: true,
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+// What the API exposes about the signed-in operator; never the password hash
+export type PublicUser = Omit<User, "password">;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type LoginRequest = z.infer<typeof loginSchema>;
+
+// Accounts created and edited by an admin; passwords arrive in cleartext
+// and are hashed by the server.
+export const createUserSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: userRoleSchema,
+});
+
+export const updateUserSchema = createUserSchema
+  .pick({ password: true, role: true })
+  .partial();
+
+export type CreateUserRequest = z.infer<typeof createUserSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
+
+// Sending rules the client needs to know about up front
+export type SendPolicy = {
+  // Campaigns with more recipients than this need an approver's sign-off
+  approvalThreshold: number;
+  // Internal addresses test sends may go to
+  seedAddresses: string[];
+};
+
+export type AttachmentMeta = {
+  filename: string;
+  contentType: string;
+  size: number;
+};
+
+// draft → pending_approval → approved → (scheduled →) queued → sending →
+// completed/failed; campaigns under the approval threshold start at queued
+// or scheduled. A rejected campaign goes back to draft.
+export const campaignStatusValues = [
+  "draft",
+  "pending_approval",
+  "approved",
+  "scheduled",
+  "queued",
+  "sending",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+export const campaignStatusSchema = z.enum(campaignStatusValues);
+export type CampaignStatus = z.infer<typeof campaignStatusSchema>;
+
+export const campaigns = pgTable("campaigns", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  subject: text("subject").notNull(),
+  htmlBody: text("html_body").notNull(),
+  textBody: text("text_body"),
+  cc: jsonb("cc").$type<string[]>().notNull().default([]),
+  bcc: jsonb("bcc").$type<string[]>().notNull().default([]),
+  attachments: jsonb("attachments")
+    .$type<AttachmentMeta[]>()
+    .notNull()
+    .default([]),
+  // Sender copied from the identity at submission so the campaign keeps
+  // sending as approved even if the identity is edited afterwards
+  senderIdentityId: varchar("sender_identity_id"),
+  fromName: text("from_name"),
+  fromEmail: text("from_email").notNull(),
+  replyTo: text("reply_to"),
+  signatureHtml: text("signature_html"),
+  // Profile whose credentials the worker sends with. Not a foreign key so
+  // finished campaigns keep their history when a profile is deleted.
+  smtpProfileId: varchar("smtp_profile_id").notNull(),
+  // Tried in this order when the primary profile stops answering
+  fallbackProfileIds: jsonb("fallback_profile_ids")
+    .$type<string[]>()
+    .notNull()
+    .default([]),
+  status: text("status").$type<CampaignStatus>().notNull().default("queued"),
+  category: text("category")
+    .$type<CampaignCategory>()
+    .notNull()
+    .default("transactional"),
+  // Messages go to captured_messages instead of the profile; skips approval
+  // and scheduling since nothing leaves the server
+  dryRun: boolean("dry_run").notNull().default(false),
+  // Fingerprint of the content (server/compose.ts) and the composer draft
+  // it came from, linking test sends to it
+  contentHash: text("content_hash"),
+  draftId: varchar("draft_id"),
+  recipientCount: integer("recipient_count").notNull().default(0),
+  // Instant the scheduler releases the campaign to the send queue, and the
+  // zone the operator picked it in (kept for display).
+  scheduledAt: timestamp("scheduled_at", { withTimezone: true }),
+  timeZone: text("time_zone"),
+  createdBy: varchar("created_by"),
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  revisionOf: varchar("revision_of"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = Omit<typeof campaigns.$inferInsert, "id" | "createdAt">;
+
+export const campaignAttachments = pgTable("campaign_attachments", {
+  id: serial("id").primaryKey(),
+  campaignId: varchar("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  // base64-encoded file contents
+  content: text("content").notNull(),
+});
+
+export type CampaignAttachment = typeof campaignAttachments.$inferSelect;
+
+export const emailStatuses = pgTable("email_statuses", {
+  id: serial("id").primaryKey(),
+  campaignId: varchar("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  name: text("name"),
+  fields: jsonb("fields").$type<Record<string, string>>().notNull().default({}),
+  status: text("status")
+    .$type<EmailStatus["status"]>()
+    .notNull()
+    .default("pending"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  smtpCode: integer("smtp_code"),
+  smtpResponse: text("smtp_response"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  // Profile name rather than id, so the record outlives renames and deletes
+  deliveredVia: text("delivered_via"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type EmailStatusRecord = typeof emailStatuses.$inferSelect;
+
+export type CampaignDetail = Campaign & {
+  statuses: EmailStatusRecord[];
+};
+
+// Append-only log of progress events; the serial id doubles as the SSE event
+// id so reconnecting clients can resume with Last-Event-ID.
+export const campaignEvents = pgTable("campaign_events", {
+  id: serial("id").primaryKey(),
+  campaignId: varchar("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  event: jsonb("event").$type<ProgressEvent>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CampaignEvent = typeof campaignEvents.$inferSelect;
+
+export type CapturedAttachment = AttachmentMeta & {
+  // Content-ID of inline parts such as the sender logo
+  cid?: string;
+};
+
+// A dry-run campaign's fully rendered message for one recipient
+export const capturedMessages = pgTable("captured_messages", {
+  id: serial("id").primaryKey(),
+  campaignId: varchar("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  from: text("from").notNull(),
+  replyTo: text("reply_to"),
+  cc: jsonb("cc").$type<string[]>().notNull().default([]),
+  bcc: jsonb("bcc").$type<string[]>().notNull().default([]),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  attachments: jsonb("attachments")
+    .$type<CapturedAttachment[]>()
+    .notNull()
+    .default([]),
+  // Extra headers such as List-Unsubscribe
+  headers: jsonb("headers").$type<Record<string, string>>().notNull().default({}),
+  // Bytes of the encoded MIME message, attachments included
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CapturedMessage = typeof capturedMessages.$inferSelect;
+export type InsertCapturedMessage = Omit<
+  typeof capturedMessages.$inferInsert,
+  "id" | "createdAt"
+>;
+// List entry for the capture browser; the bodies are fetched one at a time
+export type CapturedMessageSummary = Pick<
+  CapturedMessage,
+  "id" | "email" | "subject" | "size" | "createdAt"
+> & { attachmentCount: number };
+
+// A rendered message sent to seed addresses with a [TEST] subject prefix.
+// Test sends from the composer are linked to the campaign submitted from the
+// same draft with the same content, so approvers can see what was tested.
+export const testSends = pgTable("test_sends", {
+  id: serial("id").primaryKey(),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, {
+    onDelete: "cascade",
+  }),
+  // Null for test sends made without a draft; those are never linked
+  draftId: varchar("draft_id"),
+  contentHash: text("content_hash").notNull(),
+  subject: text("subject").notNull(),
+  // Recipient whose merge data was used
+  sampleEmail: text("sample_email").notNull(),
+  seedAddresses: jsonb("seed_addresses").$type<string[]>().notNull(),
+  failures: jsonb("failures")
+    .$type<Array<{ email: string; error: string }>>()
+    .notNull()
+    .default([]),
+  sentVia: text("sent_via"),
+  userId: varchar("user_id"),
+  username: text("username").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type TestSend = typeof testSends.$inferSelect;
+export type InsertTestSend = Omit<typeof testSends.$inferInsert, "id" | "createdAt">;
+
+export const suppressionReasonValues = [
+  "manual",
+  "import",
+  "unsubscribe",
+  "hard_bounce",
+] as const;
+
+export type SuppressionReason = (typeof suppressionReasonValues)[number];
+
+export const SUPPRESSION_REASON_LABELS: Record<SuppressionReason, string> = {
+  manual: "Added manually",
+  import: "Imported",
+  unsubscribe: "Unsubscribed",
+  hard_bounce: "Hard bounce",
+};
+
+// Addresses no campaign may mail, whoever sends it. Emails are stored
+// lowercased; the send queue checks the list right before each delivery.
+export const suppressions = pgTable("suppressions", {
+  email: text("email").primaryKey(),
+  reason: text("reason").$type<SuppressionReason>().notNull(),
+  // Operator's note, or the bounce reply
+  detail: text("detail"),
+  // Campaign whose recipient unsubscribed or bounced; kept after it is deleted
+  campaignId: varchar("campaign_id"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Suppression = typeof suppressions.$inferSelect;
+export type InsertSuppression = Omit<typeof suppressions.$inferInsert, "createdAt">;
+
+// Addresses per add or check request; clients split longer lists to stay
+// within the JSON body limit
+export const SUPPRESSION_BATCH_LIMIT = 5000;
+
+// Manual adds and CSV imports; unsubscribes and bounces are added by the server
+export const addSuppressionsSchema = z.object({
+  emails: z
+    .array(z.string().trim().email("Invalid email address"))
+    .min(1, "Add at least one address")
+    .max(SUPPRESSION_BATCH_LIMIT),
+  reason: z.enum(["manual", "import"]).default("manual"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type AddSuppressionsRequest = z.input<typeof addSuppressionsSchema>;
+
+export const checkSuppressionsSchema = z.object({
+  emails: z.array(z.string()).max(SUPPRESSION_BATCH_LIMIT),
+  // Also reports recipients who opted out of this category
+  category: z.enum(campaignCategoryValues).default("transactional"),
+});
+
+// A recipient the send queue will skip, and why
+export type SuppressedRecipient = {
+  email: string;
+  reason: string;
+};
+
+// Categories each recipient opted out of on the preference page. Emails are
+// stored lowercased; addresses without a row get every category.
+export const subscriptionPreferences = pgTable("subscription_preferences", {
+  email: text("email").primaryKey(),
+  optedOut: jsonb("opted_out")
+    .$type<SubscriptionCategory[]>()
+    .notNull()
+    .default([]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type SubscriptionPreference = typeof subscriptionPreferences.$inferSelect;
+
+export const updatePreferencesSchema = z.object({
+  optedOut: z.array(z.enum(subscriptionCategoryValues)),
+});
+
+export type UpdatePreferencesRequest = z.infer<typeof updatePreferencesSchema>;
+
+// What the public unsubscribe page shows for a link
+export type UnsubscribeDetails = {
+  email: string;
+  // Sender of the campaign the link came from
+  fromName: string | null;
+  unsubscribed: boolean;
+};
+
+// What the public preference page shows for a link
+export type PreferenceDetails = UnsubscribeDetails & {
+  optedOut: SubscriptionCategory[];
+};
+
+// Messages caught by the development SMTP sink (server/dev-mailbox.ts)
+export type MailboxMessageSummary = {
+  id: number;
+  receivedAt: string;
+  // SMTP envelope, which includes BCC recipients the headers leave out
+  envelopeFrom: string;
+  envelopeTo: string[];
+  from: string;
+  to: string;
+  subject: string;
+  size: number;
+  attachmentCount: number;
+};
+
+export type MailboxAttachment = {
+  filename: string;
+  contentType: string;
+  size: number;
+  cid?: string;
+};
+
+export type MailboxMessage = MailboxMessageSummary & {
+  headers: Array<{ key: string; line: string }>;
+  // Inline (cid:) images come back embedded as data: URIs
+  html: string | null;
+  text: string | null;
+  attachments: MailboxAttachment[];
+};
+
+export const templates = pgTable("templates", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  subject: text("subject").notNull(),
+  htmlBody: text("html_body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertTemplateSchema = createInsertSchema(templates, {
+  name: (schema) => schema.trim().min(1, "Template name is required"),
+  subject: (schema) => schema.min(1, "Subject is required"),
+  htmlBody: (schema) => schema.min(1, "Email body is required"),
+}).pick({
+  name: true,
+  subject: true,
+  htmlBody: true,
+});
+
+export type Template = typeof templates.$inferSelect;
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+
+export const auditActionValues = [
+  "submitted",
+  "approved",
+  "rejected",
+  "dispatched",
+  "superseded",
+  "cancelled",
+] as const;
+export type AuditAction = (typeof auditActionValues)[number];
+
+// Who did what to a campaign and when. Usernames are copied in so the trail
+// stays readable after an account is deleted.
+export const campaignAudit = pgTable("campaign_audit", {
+  id: serial("id").primaryKey(),
+  campaignId: varchar("campaign_id")
+    .notNull()
+    .references(() => campaigns.id, { onDelete: "cascade" }),
+  action: text("action").$type<AuditAction>().notNull(),
+  userId: varchar("user_id"),
+  username: text("username").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type CampaignAuditEntry = typeof campaignAudit.$inferSelect;
+export type InsertCampaignAuditEntry = Omit<
+  typeof campaignAudit.$inferInsert,
+  "id" | "createdAt"
+>;
+
+export const reviewDecisionSchema = z.object({
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+
+// Everything an approver looks at before signing off a campaign
+export type CampaignReview = {
+  campaign: CampaignDetail;
+  // Latest approved campaign this one revises, for the diff
+  previousApproved: CampaignDetail | null;
+  audit: CampaignAuditEntry[];
+  // Oldest first
+  testSends: TestSend[];
+};
+
+// How a profile delivers mail. Everything except `smtp` talks HTTP; `stub`
+// delivers nowhere and is refused outside development and tests.
+export const deliveryProviderValues = ["smtp", "zeptomail", "http_json", "stub"] as const;
+export const deliveryProviderSchema = z.enum(deliveryProviderValues);
+export type DeliveryProvider = z.infer<typeof deliveryProviderSchema>;
+
+// Named SMTP accounts managed by admins. The password is encrypted at rest
+// (see server/secrets.ts) and never leaves the server.
+export const smtpProfiles = pgTable("smtp_profiles", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  provider: text("provider").$type<DeliveryProvider>().notNull().default("smtp"),
+  host: text("host").notNull(),
+  port: integer("port").notNull(),
+  username: text("username").notNull(),
+  // SMTP password, or the API key for the HTTP providers
+  encryptedPassword: text("encrypted_password").notNull(),
+  security: text("security").$type<SmtpSecurity>().notNull().default("starttls"),
+  authMethod: text("auth_method").$type<SmtpAuthMethod>().notNull().default("auto"),
+  tls: jsonb("tls").$type<SmtpTlsOptions>().notNull().default({ rejectUnauthorized: true }),
+  timeouts: jsonb("timeouts").$type<SmtpTimeouts>().notNull().default({}),
+  pool: jsonb("pool")
+    .$type<SmtpPool>()
+    .notNull()
+    .default({ maxConnections: 5, maxMessages: 100, concurrency: 5 }),
+  rateLimit: jsonb("rate_limit").$type<RateLimit>().notNull().default({}),
+  // Endpoint and API key header for the HTTP providers
+  apiUrl: text("api_url"),
+  apiKeyHeader: text("api_key_header"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type SmtpProfile = typeof smtpProfiles.$inferSelect;
+export type InsertSmtpProfile = Omit<
+  typeof smtpProfiles.$inferInsert,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type PublicSmtpProfile = Omit<SmtpProfile, "encryptedPassword">;
+
+// What an admin submits; the cleartext password is encrypted on arrival.
+// Which fields are required depends on the provider and is checked on the
+// server (see server/providers).
+export const smtpProfileInputSchema = smtpConfigSchema.extend({
+  name: z.string().trim().min(1, "Profile name is required"),
+  provider: deliveryProviderSchema.default("smtp"),
+  host: z.string().trim().default("smtp.zeptomail.in"),
+  port: z.number().int().min(1).max(65535).default(587),
+  username: z.string().default(""),
+  password: z.string().default(""),
+  apiUrl: z.string().trim().url("Invalid API URL").nullable().optional(),
+  apiKeyHeader: z.string().trim().min(1).nullable().optional(),
+});
+
+// Omitted fields, including the password, keep their stored values
+export const updateSmtpProfileSchema = smtpProfileInputSchema.partial();
+
+export type SmtpProfileInput = z.input<typeof smtpProfileInputSchema>;
+export type UpdateSmtpProfileInput = z.infer<typeof updateSmtpProfileSchema>;
+
+// The name, address and branding a campaign goes out under, e.g. one desk
+// per project. An identity may only be used with the SMTP profiles listed in
+// smtpProfileIds, since providers only relay for verified sender domains.
+export const senderIdentities = pgTable("sender_identities", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  fromName: text("from_name").notNull(),
+  fromEmail: text("from_email").notNull(),
+  replyTo: text("reply_to"),
+  signatureHtml: text("signature_html"),
+  // base64-encoded image, embedded inline above the body when sending
+  logoContentType: text("logo_content_type"),
+  logoContent: text("logo_content"),
+  smtpProfileIds: jsonb("smtp_profile_ids").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type SenderIdentity = typeof senderIdentities.$inferSelect;
+export type InsertSenderIdentity = Omit<
+  typeof senderIdentities.$inferInsert,
+  "id" | "createdAt" | "updatedAt"
+>;
+// The logo is served separately from /api/sender-identities/:id/logo
+export type PublicSenderIdentity = Omit<SenderIdentity, "logoContent"> & {
+  hasLogo: boolean;
+};
+
+export const senderLogoTypes = ["image/png", "image/jpeg", "image/gif"] as const;
+export const MAX_SENDER_LOGO_BYTES = 256 * 1024;
+
+export const senderIdentityInputSchema = z.object({
+  name: z.string().trim().min(1, "Identity name is required"),
+  fromName: z.string().trim().min(1, "From name is required"),
+  fromEmail: z.string().trim().email("Invalid from address"),
+  replyTo: z.string().trim().email("Invalid reply-to address").nullable().optional(),
+  signatureHtml: z.string().nullable().optional(),
+  // null removes the current logo
+  logo: z
+    .object({
+      contentType: z.enum(senderLogoTypes),
+      content: z
+        .string()
+        .min(1)
+        .refine(
+          (content) => Math.floor((content.length * 3) / 4) <= MAX_SENDER_LOGO_BYTES,
+          "Logo must be 256 KB or smaller",
+        ),
+    })
+    .nullable()
+    .optional(),
+  smtpProfileIds: z.array(z.string()).min(1, "Allow at least one SMTP profile"),
+});
+
+export const updateSenderIdentitySchema = senderIdentityInputSchema.partial();
+
+export type SenderIdentityInput = z.infer<typeof senderIdentityInputSchema>;
+export type UpdateSenderIdentityInput = z.infer<typeof updateSenderIdentitySchema>;
@@ -0,0 +1,34 @@
+import type { PublicSenderIdentity } from "./schema";
+
+// Content-ID the worker attaches an identity's logo under
+export const SENDER_LOGO_CID = "sender-logo";
+
+export function formatSender(fromName: string | null | undefined, fromEmail: string): string {
+  return fromName ? `${fromName} <${fromEmail}>` : fromEmail;
+}
+
+// Wraps a campaign body with the identity's logo and signature. Previews pass
+// the logo's URL; the worker passes "cid:" + SENDER_LOGO_CID.
+export function decorateBody(
+  htmlBody: string,
+  options: { signatureHtml?: string | null; logoSrc?: string | null },
+): string {
+  const parts: string[] = [];
+  if (options.logoSrc) {
+    parts.push(
+      `<div style="margin-bottom:16px"><img src="${options.logoSrc}" alt="" style="max-height:64px"></div>`,
+    );
+  }
+  parts.push(htmlBody);
+  if (options.signatureHtml) {
+    parts.push(`<div style="margin-top:24px">${options.signatureHtml}</div>`);
+  }
+  return parts.join("\n");
+}
+
+// For previews; updatedAt busts the browser cache after a logo is replaced
+export function senderLogoUrl(identity: PublicSenderIdentity): string | null {
+  return identity.hasLogo
+    ? `/api/sender-identities/${identity.id}/logo?v=${new Date(identity.updatedAt).getTime()}`
+    : null;
+}